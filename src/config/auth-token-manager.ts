@@ -0,0 +1,32 @@
+import * as vscode from "vscode";
+import { randomBytes } from "crypto";
+import { EXTENSION_ID } from "@/constants";
+
+const SECRET_KEY = `${EXTENSION_ID}.authToken`;
+
+export class AuthTokenManager {
+  private cachedToken?: string;
+
+  constructor(private readonly secrets: vscode.SecretStorage) {}
+
+  async getOrCreateToken(): Promise<string> {
+    if (this.cachedToken) {
+      return this.cachedToken;
+    }
+
+    const stored = await this.secrets.get(SECRET_KEY);
+    if (stored) {
+      this.cachedToken = stored;
+      return stored;
+    }
+
+    return this.regenerateToken();
+  }
+
+  async regenerateToken(): Promise<string> {
+    const token = randomBytes(32).toString("base64url");
+    await this.secrets.store(SECRET_KEY, token);
+    this.cachedToken = token;
+    return token;
+  }
+}
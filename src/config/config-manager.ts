@@ -1,5 +1,5 @@
 import * as vscode from "vscode";
-import type { LogLevel } from "@/types";
+import type { AuthMode, LogLevel } from "@/types";
 import { EXTENSION_ID, DEFAULT_SSE_PORT } from "@/constants";
 
 export class ConfigManager {
@@ -15,6 +15,34 @@ export class ConfigManager {
     return this.getConfig().get("autostart", false);
   }
 
+  get authMode(): AuthMode {
+    return this.getConfig().get("authMode", "none");
+  }
+
+  get allowedOrigins(): string[] {
+    return this.getConfig().get("allowedOrigins", []);
+  }
+
+  get sessionStartTimeout(): number {
+    return this.getConfig().get("sessionStartTimeout", 10000);
+  }
+
+  get outputBufferSize(): number {
+    return this.getConfig().get("outputBufferSize", 5000);
+  }
+
+  get sessionHistorySize(): number {
+    return this.getConfig().get("sessionHistorySize", 20);
+  }
+
+  get breakpointHitLogSize(): number {
+    return this.getConfig().get("breakpointHitLogSize", 1000);
+  }
+
+  get statefulSessions(): boolean {
+    return this.getConfig().get("statefulSessions", true);
+  }
+
   get logLevel(): LogLevel {
     return this.getConfig().get("logLevel", "info");
   }
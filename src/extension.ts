@@ -1,12 +1,14 @@
 import * as vscode from "vscode";
 import { getLogger } from "@/logger";
 import { ConfigManager } from "@/config/config-manager";
+import { AuthTokenManager } from "@/config/auth-token-manager";
 import { Debug } from "@/managers/debug";
 import { HttpMcpServer } from "@/mcp/server";
 import { StatusViewProvider } from "@/ui/StatusViewProvider";
 import { EXTENSION_ID } from "@/constants";
 
 let configManager: ConfigManager;
+let authTokenManager: AuthTokenManager;
 let debugManager: Debug;
 let mcpServer: HttpMcpServer;
 let statusViewProvider: StatusViewProvider;
@@ -29,8 +31,15 @@ export function activate(context: vscode.ExtensionContext) {
     debugManager,
     configManager.ssePort,
     configManager.sseHost,
-    extensionVersion
+    extensionVersion,
+    configManager.statefulSessions
   );
+  mcpServer.setAllowedOrigins(configManager.allowedOrigins);
+
+  authTokenManager = new AuthTokenManager(context.secrets);
+  // Failures are reported by applyAuthMode and surface again when the server starts
+  let authReady = applyAuthMode();
+  authReady.catch(() => undefined);
 
   // Register UI view provider
   statusViewProvider = new StatusViewProvider(
@@ -49,7 +58,7 @@ export function activate(context: vscode.ExtensionContext) {
   logger.info("UI view provider registered");
 
   if (configManager.autostart) {
-    mcpServer.start().catch((error) => {
+    authReady.then(() => mcpServer.start()).catch((error) => {
       logger.error("Failed to auto-start MCP server", error);
       vscode.window.showErrorMessage(
         `Failed to start MCP server: ${error.message}`
@@ -67,6 +76,7 @@ export function activate(context: vscode.ExtensionContext) {
           );
           return;
         }
+        await authReady;
         await mcpServer.start();
         vscode.window.showInformationMessage(
           `MCP Server started at ${mcpServer.getUrl()}`
@@ -104,6 +114,7 @@ export function activate(context: vscode.ExtensionContext) {
         if (mcpServer.isServerRunning()) {
           await mcpServer.stop();
         }
+        await authReady;
         await mcpServer.start();
         vscode.window.showInformationMessage(
           `MCP Server restarted at ${mcpServer.getUrl()}`
@@ -140,17 +151,192 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       const url = mcpServer.getUrl();
-      await vscode.env.clipboard.writeText(url);
+      if (!mcpServer.isAuthEnabled()) {
+        await vscode.env.clipboard.writeText(url);
+        vscode.window.showInformationMessage(
+          `MCP Server URL copied to clipboard: ${url}\n\nUse this URL to configure your AI client (Cursor, Continue, Cline, etc.)`
+        );
+        return;
+      }
+
+      const token = await authTokenManager.getOrCreateToken();
+      const clientConfig = {
+        mcpServers: {
+          "debug-mcp": {
+            url,
+            headers: { Authorization: `Bearer ${token}` },
+          },
+        },
+      };
+      await vscode.env.clipboard.writeText(JSON.stringify(clientConfig, null, 2));
       vscode.window.showInformationMessage(
-        `MCP Server URL copied to clipboard: ${url}\n\nUse this URL to configure your AI client (Cursor, Continue, Cline, etc.)`
+        `MCP client config (with auth token) copied to clipboard for ${url}\n\nPaste it into your AI client configuration (Cursor, Continue, Cline, etc.)`
       );
     }),
 
+    vscode.commands.registerCommand(`${EXTENSION_ID}.regenerateToken`, async () => {
+      logger.info("Regenerate token command called");
+      const confirm = await vscode.window.showWarningMessage(
+        "Regenerate the MCP auth token? Clients using the current token will be rejected until they are reconfigured.",
+        { modal: true },
+        "Regenerate"
+      );
+      if (confirm !== "Regenerate") {
+        return;
+      }
+
+      try {
+        const token = await authTokenManager.regenerateToken();
+        if (configManager.authMode === "bearer") {
+          mcpServer.setAuthToken(token);
+        }
+        const action = await vscode.window.showInformationMessage(
+          "MCP auth token regenerated",
+          "Copy Client Config"
+        );
+        if (action === "Copy Client Config") {
+          await vscode.commands.executeCommand(`${EXTENSION_ID}.getServerUrl`);
+        }
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        logger.error("Failed to regenerate auth token", err);
+        vscode.window.showErrorMessage(
+          `Failed to regenerate auth token: ${err.message}`
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand(`${EXTENSION_ID}.saveBreakpointProfile`, async () => {
+      logger.info("Save breakpoint profile command called");
+      const name = await vscode.window.showInputBox({
+        prompt: "Name of the breakpoint profile",
+        placeHolder: "e.g. checkout-bug",
+        validateInput: (value) => (value.trim() ? undefined : "Name must not be empty"),
+      });
+      if (!name) {
+        return;
+      }
+
+      try {
+        const existing = await debugManager.profiles.list();
+        if (existing.some((profile) => profile.name === name.trim())) {
+          const confirm = await vscode.window.showWarningMessage(
+            `Breakpoint profile '${name.trim()}' already exists. Overwrite it?`,
+            { modal: true },
+            "Overwrite"
+          );
+          if (confirm !== "Overwrite") {
+            return;
+          }
+        }
+        const summary = await debugManager.profiles.save(name.trim(), true);
+        vscode.window.showInformationMessage(
+          `Breakpoint profile '${summary.name}' saved (${summary.sourceBreakpoints} source, ${summary.functionBreakpoints} function, ${summary.exceptionBreakpoints} exception)`
+        );
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        logger.error("Failed to save breakpoint profile", err);
+        vscode.window.showErrorMessage(
+          `Failed to save breakpoint profile: ${err.message}`
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand(`${EXTENSION_ID}.applyBreakpointProfile`, async () => {
+      logger.info("Apply breakpoint profile command called");
+      try {
+        const name = await pickBreakpointProfile("Breakpoint profile to apply");
+        if (!name) {
+          return;
+        }
+        const mode = await vscode.window.showQuickPick(
+          [
+            { label: "Replace", description: "Remove current breakpoints first", value: "replace" as const },
+            { label: "Merge", description: "Keep current breakpoints", value: "merge" as const },
+          ],
+          { placeHolder: `How to apply '${name}'` }
+        );
+        if (!mode) {
+          return;
+        }
+        const result = await debugManager.profiles.apply(name, mode.value);
+        vscode.window.showInformationMessage(
+          `Breakpoint profile '${name}' applied: ${result.added} added, ${result.removed} removed`
+        );
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        logger.error("Failed to apply breakpoint profile", err);
+        vscode.window.showErrorMessage(
+          `Failed to apply breakpoint profile: ${err.message}`
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand(`${EXTENSION_ID}.diffBreakpointProfile`, async () => {
+      logger.info("Diff breakpoint profile command called");
+      try {
+        const name = await pickBreakpointProfile("Breakpoint profile to compare with the current breakpoints");
+        if (!name) {
+          return;
+        }
+        const diff = await debugManager.profiles.diff(name);
+        const sections = [
+          ["Only in profile", diff.onlyInProfile],
+          ["Only in workspace", diff.onlyInWorkspace],
+          ["Changed", diff.changed],
+        ] as const;
+        const detail = sections
+          .filter(([, items]) => items.length > 0)
+          .map(([title, items]) => `${title}:\n${items.map((item) => `  ${item}`).join("\n")}`)
+          .join("\n\n");
+        vscode.window.showInformationMessage(
+          `Breakpoint profile '${name}'`,
+          { modal: true, detail: detail || "Identical to the current breakpoints" }
+        );
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        logger.error("Failed to diff breakpoint profile", err);
+        vscode.window.showErrorMessage(
+          `Failed to diff breakpoint profile: ${err.message}`
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand(`${EXTENSION_ID}.deleteBreakpointProfile`, async () => {
+      logger.info("Delete breakpoint profile command called");
+      try {
+        const name = await pickBreakpointProfile("Breakpoint profile to delete");
+        if (!name) {
+          return;
+        }
+        const confirm = await vscode.window.showWarningMessage(
+          `Delete breakpoint profile '${name}'?`,
+          { modal: true },
+          "Delete"
+        );
+        if (confirm !== "Delete") {
+          return;
+        }
+        await debugManager.profiles.delete(name);
+        vscode.window.showInformationMessage(`Breakpoint profile '${name}' deleted`);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        logger.error("Failed to delete breakpoint profile", err);
+        vscode.window.showErrorMessage(
+          `Failed to delete breakpoint profile: ${err.message}`
+        );
+      }
+    }),
+
     configManager.onDidChange(() => {
       logger.setLevel(configManager.logLevel);
+      mcpServer.setAllowedOrigins(configManager.allowedOrigins);
+      authReady = applyAuthMode();
+      authReady.catch(() => undefined);
       logger.info("Configuration changed", {
         logLevel: configManager.logLevel,
         ssePort: configManager.ssePort,
+        authMode: configManager.authMode,
       });
     }),
   );
@@ -161,6 +347,47 @@ export function activate(context: vscode.ExtensionContext) {
   });
 }
 
+async function applyAuthMode(): Promise<void> {
+  const logger = getLogger();
+
+  if (configManager.authMode !== "bearer") {
+    mcpServer.setAuthToken(undefined);
+    if (!["localhost", "127.0.0.1", "::1"].includes(configManager.sseHost)) {
+      logger.warn("MCP server is reachable from other hosts without authentication. Set mcpDebugHub.authMode to 'bearer'.", {
+        sseHost: configManager.sseHost,
+      });
+    }
+    return;
+  }
+
+  try {
+    mcpServer.setAuthToken(await authTokenManager.getOrCreateToken());
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.error("Failed to load MCP auth token", err);
+    vscode.window.showErrorMessage(`Failed to load MCP auth token: ${err.message}`);
+    throw err;
+  }
+}
+
+async function pickBreakpointProfile(placeHolder: string): Promise<string | undefined> {
+  const profiles = await debugManager.profiles.list();
+  if (profiles.length === 0) {
+    vscode.window.showInformationMessage("No breakpoint profiles saved");
+    return undefined;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    profiles.map((profile) => ({
+      label: profile.name,
+      description: `${profile.sourceBreakpoints} source, ${profile.functionBreakpoints} function, ${profile.exceptionBreakpoints} exception`,
+      detail: `Saved ${new Date(profile.savedAt).toLocaleString()}`,
+    })),
+    { placeHolder }
+  );
+  return picked?.label;
+}
+
 export async function deactivate() {
   const logger = getLogger();
   logger.info("Extension deactivating");
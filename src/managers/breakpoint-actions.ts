@@ -0,0 +1,197 @@
+import * as vscode from "vscode";
+import { getLogger } from "@/logger";
+import type {
+  BreakpointAction,
+  BreakpointActionRecord,
+  BreakpointActionResult,
+  StackFrameInfo,
+  StopInfo,
+} from "@/types";
+import type { Breakpoints } from "./breakpoints";
+import type { Inspection } from "./inspection";
+
+const logger = getLogger();
+
+// Action records kept across all breakpoints; older ones are dropped first
+const MAX_ACTION_RECORDS = 1000;
+
+const DEFAULT_STACK_LEVELS = 10;
+
+interface ActionDefinition {
+  actions: BreakpointAction[];
+  autoContinue: boolean;
+}
+
+/**
+ * Action lists attached to breakpoints, run whenever one of them is hit. Breakpoints that
+ * continue automatically let an agent instrument a hot path without pausing the program.
+ */
+export class BreakpointActions {
+  private definitions: Map<string, ActionDefinition> = new Map();
+  private records: BreakpointActionRecord[] = [];
+  private nextSeq = 1;
+  private dropped = 0;
+
+  constructor(
+    private breakpoints: Breakpoints,
+    private inspection: Inspection,
+  ) {}
+
+  /**
+   * Attaches actions to the breakpoint with the given key. An empty list removes them.
+   */
+  define(key: string, actions: BreakpointAction[], autoContinue: boolean): void {
+    if (actions.length > 0) {
+      this.definitions.set(key, { actions, autoContinue });
+    } else {
+      this.definitions.delete(key);
+    }
+  }
+
+  /** Drops the actions of removed breakpoints. Their recorded results stay readable. */
+  forget(keys: string[]): void {
+    keys.forEach((key) => this.definitions.delete(key));
+  }
+
+  /**
+   * Tells from the keys a stop is attributed to whether the actions will resume execution, so
+   * waiting tools can ignore the stop.
+   */
+  continuesAfter(keys: string[]): boolean {
+    return keys.length > 0 && keys.every((key) => this.definitions.get(key)?.autoContinue === true);
+  }
+
+  hasAutoContinue(): boolean {
+    return Array.from(this.definitions.values()).some((definition) => definition.autoContinue);
+  }
+
+  /**
+   * Runs the actions of the hit breakpoints, then continues the thread if all of them ask for it.
+   */
+  async run(session: vscode.DebugSession, stop: StopInfo, keys: string[]): Promise<void> {
+    const hit = keys.filter((key) => this.definitions.has(key));
+    if (hit.length === 0) {
+      return;
+    }
+
+    const frames = stop.threadId !== undefined
+      ? await this.inspection.getStackTrace(stop.threadId, session)
+      : [];
+    const autoContinue = keys.every((key) => this.definitions.get(key)?.autoContinue === true);
+
+    for (const key of hit) {
+      const results: BreakpointActionResult[] = [];
+      for (const action of this.definitions.get(key)!.actions) {
+        results.push(await this.runAction(session, frames, action));
+      }
+
+      this.records.push({
+        seq: this.nextSeq++,
+        timestamp: stop.timestamp,
+        breakpointId: this.breakpoints.findIdByKey(key),
+        location: this.breakpoints.describeKey(key),
+        sessionId: session.id,
+        threadId: stop.threadId,
+        results,
+        continued: autoContinue,
+      });
+      if (this.records.length > MAX_ACTION_RECORDS) {
+        this.records.shift();
+        this.dropped++;
+      }
+    }
+
+    if (!autoContinue) {
+      return;
+    }
+    try {
+      await session.customRequest("continue", { threadId: stop.threadId });
+    } catch (error) {
+      logger.warn("Failed to continue after breakpoint actions", {
+        sessionId: session.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  query(options: { breakpointId?: string; sessionId?: string; since?: number; limit?: number } = {}): {
+    records: BreakpointActionRecord[];
+    cursor: number;
+    dropped: number;
+  } {
+    const key = options.breakpointId !== undefined ? this.breakpoints.getKeyById(options.breakpointId) : undefined;
+    const location = key && this.breakpoints.describeKey(key);
+
+    const matching = this.records.filter((record) =>
+      (options.breakpointId === undefined ||
+        record.breakpointId === options.breakpointId ||
+        record.location === location) &&
+      (options.sessionId === undefined || record.sessionId === options.sessionId) &&
+      (options.since === undefined || record.seq > options.since));
+
+    return {
+      records: options.limit !== undefined ? matching.slice(-options.limit) : matching,
+      cursor: this.nextSeq - 1,
+      dropped: this.dropped,
+    };
+  }
+
+  private async runAction(
+    session: vscode.DebugSession,
+    frames: StackFrameInfo[],
+    action: BreakpointAction,
+  ): Promise<BreakpointActionResult> {
+    const topFrame = frames[0];
+    if (!topFrame) {
+      return { action, error: "No stack frame available" };
+    }
+
+    try {
+      switch (action.type) {
+        case "evaluate": {
+          const value = await this.inspection.evaluateExpression(
+            action.expression,
+            topFrame.id,
+            undefined,
+            "watch",
+            session,
+          );
+          return { action, value };
+        }
+        case "stackTrace":
+          return {
+            action,
+            frames: frames
+              .slice(0, action.levels ?? DEFAULT_STACK_LEVELS)
+              .map(({ name, file, line }) => ({ name, file, line })),
+          };
+        case "setVariable":
+          return { action, value: await this.setVariable(session, topFrame.id, action.name, action.value) };
+      }
+    } catch (error) {
+      return { action, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async setVariable(
+    session: vscode.DebugSession,
+    frameId: number,
+    name: string,
+    value: string,
+  ): Promise<string> {
+    const scopes = await this.inspection.getScopes(frameId, undefined, session);
+
+    for (const scope of scopes.filter((s) => !s.expensive && s.variablesReference > 0)) {
+      const variables = await this.inspection.getVariables(scope.variablesReference, session);
+      if (variables.some((variable) => variable.name === name)) {
+        const response = await session.customRequest("setVariable", {
+          variablesReference: scope.variablesReference,
+          name,
+          value,
+        });
+        return response?.value ?? value;
+      }
+    }
+    throw new Error(`Variable '${name}' not found in the scopes of the top stack frame`);
+  }
+}
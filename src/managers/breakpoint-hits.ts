@@ -0,0 +1,184 @@
+import * as vscode from "vscode";
+import { getLogger } from "@/logger";
+import { ConfigManager } from "@/config/config-manager";
+import type {
+  BreakpointHit,
+  BreakpointHitGroup,
+  BreakpointHitGrouping,
+  BreakpointHitQuery,
+  StopInfo,
+} from "@/types";
+import type { Breakpoints } from "./breakpoints";
+
+const logger = getLogger();
+
+/**
+ * Records every stop attributed to a source or function breakpoint, keeping exact counts per
+ * breakpoint and a bounded log of individual hits.
+ */
+export class BreakpointHits {
+  private hits: BreakpointHit[] = [];
+  private counts: Map<string, number> = new Map();
+  // breakpoint key -> expressions evaluated on every hit
+  private captures: Map<string, string[]> = new Map();
+  private nextSeq = 1;
+  private config = new ConfigManager();
+
+  constructor(private breakpoints: Breakpoints) {}
+
+  count(key: string): number {
+    return this.counts.get(key) ?? 0;
+  }
+
+  /**
+   * Sets the expressions evaluated whenever the breakpoint is hit. An empty list removes them.
+   */
+  setCaptures(key: string, expressions: string[]): void {
+    if (expressions.length > 0) {
+      this.captures.set(key, expressions);
+    } else {
+      this.captures.delete(key);
+    }
+  }
+
+  /** Drops the capture expressions of removed breakpoints. Hit counts stay with the location. */
+  forget(keys: string[]): void {
+    keys.forEach((key) => this.captures.delete(key));
+  }
+
+  /**
+   * Records the stop for each breakpoint it is attributed to and returns their keys once the
+   * capture expressions are evaluated, so the caller can resume the thread afterwards.
+   */
+  async record(session: vscode.DebugSession, stop: StopInfo): Promise<string[]> {
+    // Breakpoints scoped to other sessions are continued past, so they were not hit here
+    const keys = (await this.breakpoints.findStopKeys(session, stop))
+      .filter((key) => this.breakpoints.appliesTo(key, session.id));
+
+    const hits = keys.map((key) => this.append(key, session.id, stop));
+    await this.capture(session, stop, keys, hits);
+    return keys;
+  }
+
+  private async capture(
+    session: vscode.DebugSession,
+    stop: StopInfo,
+    keys: string[],
+    hits: BreakpointHit[],
+  ): Promise<void> {
+    const expressions = Array.from(new Set(keys.flatMap((key) => this.captures.get(key) ?? [])));
+    if (expressions.length === 0) {
+      return;
+    }
+
+    const frame = await this.getTopFrame(session, stop.threadId);
+    const values = await this.evaluate(session, frame?.id, expressions);
+    for (const [index, key] of keys.entries()) {
+      const captured = this.captures.get(key);
+      if (captured) {
+        hits[index].captured = Object.fromEntries(captured.map((expression) => [expression, values.get(expression)!]));
+      }
+    }
+  }
+
+  query(query: BreakpointHitQuery = {}): BreakpointHit[] {
+    // Hits recorded before the breakpoint was re-created carry an older ID but the same location
+    const key = query.breakpointId !== undefined ? this.breakpoints.getKeyById(query.breakpointId) : undefined;
+    const location = key && this.breakpoints.describeKey(key);
+
+    return this.hits.filter((hit) =>
+      (query.breakpointId === undefined || hit.breakpointId === query.breakpointId || hit.location === location) &&
+      (query.sessionId === undefined || hit.sessionId === query.sessionId) &&
+      (query.threadId === undefined || hit.threadId === query.threadId) &&
+      (query.reason === undefined || hit.reason === query.reason) &&
+      (query.since === undefined || hit.seq > query.since));
+  }
+
+  /**
+   * Aggregates hits from the log. Counts only cover hits still in the log; use `count` for
+   * exact totals per breakpoint.
+   */
+  aggregate(hits: BreakpointHit[], groupBy: BreakpointHitGrouping): BreakpointHitGroup[] {
+    const groups = new Map<string, BreakpointHitGroup>();
+
+    for (const hit of hits) {
+      const key = groupBy === "breakpoint" ? hit.location
+        : groupBy === "session" ? hit.sessionId
+        : groupBy === "thread" ? `${hit.sessionId}/${hit.threadId ?? "?"}`
+        : hit.reason;
+
+      const group = groups.get(key);
+      if (group) {
+        group.count++;
+        group.lastHit = hit.timestamp;
+      } else {
+        groups.set(key, { key, count: 1, firstHit: hit.timestamp, lastHit: hit.timestamp });
+      }
+    }
+
+    return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+  }
+
+  getCursor(): number {
+    return this.nextSeq - 1;
+  }
+
+  clear(): void {
+    this.hits = [];
+    this.counts.clear();
+  }
+
+  private append(key: string, sessionId: string, stop: StopInfo): BreakpointHit {
+    const hit: BreakpointHit = {
+      seq: this.nextSeq++,
+      breakpointId: this.breakpoints.findIdByKey(key),
+      location: this.breakpoints.describeKey(key),
+      sessionId,
+      threadId: stop.threadId,
+      reason: stop.reason,
+      timestamp: stop.timestamp,
+    };
+
+    this.counts.set(key, this.count(key) + 1);
+    this.hits.push(hit);
+
+    const limit = Math.max(0, this.config.breakpointHitLogSize);
+    if (this.hits.length > limit) {
+      this.hits.splice(0, this.hits.length - limit);
+    }
+    return hit;
+  }
+
+  private async getTopFrame(session: vscode.DebugSession, threadId: number | undefined): Promise<any> {
+    if (threadId === undefined) {
+      return undefined;
+    }
+
+    try {
+      const response = await session.customRequest("stackTrace", { threadId, startFrame: 0, levels: 1 });
+      return response?.stackFrames?.[0];
+    } catch (error) {
+      logger.debug("Failed to read the stack of a breakpoint hit", {
+        sessionId: session.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  private async evaluate(
+    session: vscode.DebugSession,
+    frameId: number | undefined,
+    expressions: string[],
+  ): Promise<Map<string, string>> {
+    const values = await Promise.all(expressions.map(async (expression) => {
+      try {
+        const response = await session.customRequest("evaluate", { expression, frameId, context: "watch" });
+        return response?.result ?? "";
+      } catch (error) {
+        return `<error: ${error instanceof Error ? error.message : String(error)}>`;
+      }
+    }));
+    return new Map(expressions.map((expression, index) => [expression, values[index]]));
+  }
+}
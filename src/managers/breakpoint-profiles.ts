@@ -0,0 +1,319 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { getLogger } from "@/logger";
+import type {
+  BreakpointProfile,
+  BreakpointProfileDiff,
+  BreakpointProfileSummary,
+  ExceptionFilterChoice,
+  ProfileFunctionBreakpoint,
+  ProfileSourceBreakpoint,
+} from "@/types";
+import type { Exceptions } from "./exceptions";
+import { functionKey, sourceKey, type Breakpoints } from "./breakpoints";
+import { isTracepoint } from "./traces";
+
+const logger = getLogger();
+
+const PROFILES_FILE = ".vscode/mcp-debug-hub/breakpoints.json";
+const PROFILES_FILE_VERSION = 1;
+
+interface ProfilesFile {
+  version: number;
+  // A Map, so names such as "constructor" or "__proto__" are not confused with object members
+  profiles: Map<string, BreakpointProfile>;
+}
+
+interface ProfileEntry {
+  key: string;
+  label: string;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Named sets of source, function and exception breakpoints, stored in a workspace file so
+ * they can be committed and shared.
+ */
+export class BreakpointProfiles {
+  constructor(
+    private exceptions: Exceptions,
+    private breakpoints: Breakpoints,
+  ) {}
+
+  async save(name: string, overwrite: boolean): Promise<BreakpointProfileSummary> {
+    const file = await this.read();
+    if (file.profiles.has(name) && !overwrite) {
+      throw new Error(`Breakpoint profile '${name}' already exists. Pass overwrite to replace it`);
+    }
+
+    const profile = this.capture();
+    file.profiles.set(name, profile);
+    await this.write(file);
+
+    logger.info("Breakpoint profile saved", { name });
+    return this.summarize(name, profile);
+  }
+
+  async list(): Promise<BreakpointProfileSummary[]> {
+    const file = await this.read();
+    return Array.from(file.profiles).map(([name, profile]) => this.summarize(name, profile));
+  }
+
+  /**
+   * Applies a profile. "replace" removes the user's source and function breakpoints first;
+   * "merge" only adds breakpoints whose location is not already used.
+   */
+  async apply(
+    name: string,
+    mode: "replace" | "merge",
+  ): Promise<{ added: number; removed: number; exceptionBreakpoints: number }> {
+    const profile = await this.get(name);
+
+    let removed = 0;
+    if (mode === "replace") {
+      const existing = this.getUserBreakpoints();
+      vscode.debug.removeBreakpoints(existing);
+      removed = existing.length;
+    }
+
+    // The removal above may not be reflected in vscode.debug.breakpoints yet
+    const currentKeys = mode === "replace"
+      ? new Set<string>()
+      : new Set(this.toEntries(this.capture()).map((entry) => entry.key));
+    const toAdd: vscode.Breakpoint[] = [];
+
+    for (const bp of profile.sourceBreakpoints) {
+      const uri = this.resolveFile(bp.file);
+      if (currentKeys.has(sourceKey(uri.fsPath, bp.line))) {
+        continue;
+      }
+      toAdd.push(new vscode.SourceBreakpoint(
+        new vscode.Location(uri, new vscode.Position(bp.line - 1, bp.column ?? 0)),
+        bp.enabled,
+        bp.condition,
+        bp.hitCondition,
+        bp.logMessage,
+      ));
+    }
+
+    for (const bp of profile.functionBreakpoints) {
+      if (currentKeys.has(functionKey(bp.functionName))) {
+        continue;
+      }
+      toAdd.push(new vscode.FunctionBreakpoint(
+        bp.functionName,
+        bp.enabled,
+        bp.condition,
+        bp.hitCondition,
+        bp.logMessage,
+      ));
+    }
+
+    vscode.debug.addBreakpoints(toAdd);
+    await this.exceptions.restoreChoices(profile.exceptionBreakpoints, mode === "replace");
+
+    logger.info("Breakpoint profile applied", { name, mode, added: toAdd.length, removed });
+    return {
+      added: toAdd.length,
+      removed,
+      exceptionBreakpoints: profile.exceptionBreakpoints.length,
+    };
+  }
+
+  async diff(name: string): Promise<BreakpointProfileDiff> {
+    const profileEntries = this.toEntries(await this.get(name));
+    const workspaceEntries = this.toEntries(this.capture());
+    const workspaceByKey = new Map(workspaceEntries.map((entry) => [entry.key, entry]));
+    const profileKeys = new Set(profileEntries.map((entry) => entry.key));
+
+    const diff: BreakpointProfileDiff = { onlyInProfile: [], onlyInWorkspace: [], changed: [] };
+    for (const entry of profileEntries) {
+      const current = workspaceByKey.get(entry.key);
+      if (!current) {
+        diff.onlyInProfile.push(entry.label);
+        continue;
+      }
+
+      const changes = Object.keys({ ...entry.properties, ...current.properties })
+        .filter((property) =>
+          JSON.stringify(entry.properties[property]) !== JSON.stringify(current.properties[property]))
+        .map((property) =>
+          `${property}: ${JSON.stringify(current.properties[property])} -> ${JSON.stringify(entry.properties[property])}`);
+      if (changes.length > 0) {
+        diff.changed.push(`${entry.label} (${changes.join(", ")})`);
+      }
+    }
+    diff.onlyInWorkspace = workspaceEntries
+      .filter((entry) => !profileKeys.has(entry.key))
+      .map((entry) => entry.label);
+
+    return diff;
+  }
+
+  async delete(name: string): Promise<void> {
+    const file = await this.read();
+    if (!file.profiles.delete(name)) {
+      throw new Error(`Breakpoint profile '${name}' not found`);
+    }
+
+    await this.write(file);
+    logger.info("Breakpoint profile deleted", { name });
+  }
+
+  private async get(name: string): Promise<BreakpointProfile> {
+    const file = await this.read();
+    const profile = file.profiles.get(name);
+    if (!profile) {
+      const known = Array.from(file.profiles.keys()).join(", ") || "none";
+      throw new Error(`Breakpoint profile '${name}' not found. Available profiles: ${known}`);
+    }
+    return profile;
+  }
+
+  private capture(): BreakpointProfile {
+    const sourceBreakpoints: ProfileSourceBreakpoint[] = [];
+    const functionBreakpoints: ProfileFunctionBreakpoint[] = [];
+
+    for (const bp of this.getUserBreakpoints()) {
+      if (bp instanceof vscode.SourceBreakpoint) {
+        const column = bp.location.range.start.character;
+        sourceBreakpoints.push({
+          file: this.toProfilePath(bp.location.uri),
+          line: bp.location.range.start.line + 1,
+          ...(column > 0 && { column }),
+          enabled: bp.enabled,
+          ...(bp.condition && { condition: bp.condition }),
+          ...(bp.hitCondition && { hitCondition: bp.hitCondition }),
+          ...(bp.logMessage && { logMessage: bp.logMessage }),
+        });
+      } else if (bp instanceof vscode.FunctionBreakpoint) {
+        functionBreakpoints.push({
+          functionName: bp.functionName,
+          enabled: bp.enabled,
+          ...(bp.condition && { condition: bp.condition }),
+          ...(bp.hitCondition && { hitCondition: bp.hitCondition }),
+          ...(bp.logMessage && { logMessage: bp.logMessage }),
+        });
+      }
+    }
+
+    return {
+      savedAt: new Date().toISOString(),
+      sourceBreakpoints,
+      functionBreakpoints,
+      exceptionBreakpoints: this.exceptions.getChoices(),
+    };
+  }
+
+  /**
+   * Source and function breakpoints except tracepoints, which belong to a running trace, and
+   * breakpoints scoped to a session, which end with it.
+   */
+  private getUserBreakpoints(): vscode.Breakpoint[] {
+    return vscode.debug.breakpoints.filter((bp) =>
+      (bp instanceof vscode.SourceBreakpoint || bp instanceof vscode.FunctionBreakpoint) &&
+      !isTracepoint(bp) &&
+      !this.breakpoints.isScoped(this.breakpoints.getKey(bp)!));
+  }
+
+  private toEntries(profile: BreakpointProfile): ProfileEntry[] {
+    const describeChoice = (choice: ExceptionFilterChoice) =>
+      `${choice.name} (${choice.type}${choice.workspaceFolder ? `, ${choice.workspaceFolder}` : ""})`;
+
+    return [
+      ...profile.sourceBreakpoints.map(({ file, line, ...properties }) => ({
+        key: sourceKey(this.resolveFile(file).fsPath, line),
+        label: `${file}:${line}`,
+        properties,
+      })),
+      ...profile.functionBreakpoints.map(({ functionName, ...properties }) => ({
+        key: functionKey(functionName),
+        label: `function ${functionName}`,
+        properties,
+      })),
+      ...profile.exceptionBreakpoints.map((choice) => ({
+        key: `exception:${choice.type}|${choice.request}|${choice.name}|${choice.workspaceFolder ?? ""}`,
+        label: `exception filters for ${describeChoice(choice)}`,
+        properties: { filters: choice.filters },
+      })),
+    ];
+  }
+
+  /**
+   * Workspace-relative paths keep profiles usable on other machines.
+   */
+  private toProfilePath(uri: vscode.Uri): string {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (!vscode.workspace.getWorkspaceFolder(uri)) {
+      return uri.fsPath;
+    }
+    return vscode.workspace.asRelativePath(uri, folders.length > 1).split(path.sep).join("/");
+  }
+
+  private resolveFile(file: string): vscode.Uri {
+    if (path.isAbsolute(file)) {
+      return vscode.Uri.file(file);
+    }
+
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length > 1) {
+      const [folderName, ...rest] = file.split("/");
+      const folder = folders.find((f) => f.name === folderName);
+      if (folder) {
+        return vscode.Uri.joinPath(folder.uri, ...rest);
+      }
+    }
+    if (folders.length === 0) {
+      throw new Error(`Cannot resolve '${file}' without an open workspace folder`);
+    }
+    return vscode.Uri.joinPath(folders[0].uri, ...file.split("/"));
+  }
+
+  private summarize(name: string, profile: BreakpointProfile): BreakpointProfileSummary {
+    return {
+      name,
+      savedAt: profile.savedAt,
+      sourceBreakpoints: profile.sourceBreakpoints.length,
+      functionBreakpoints: profile.functionBreakpoints.length,
+      exceptionBreakpoints: profile.exceptionBreakpoints.length,
+    };
+  }
+
+  private getFileUri(): vscode.Uri {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      throw new Error("Breakpoint profiles need an open workspace folder");
+    }
+    return vscode.Uri.joinPath(folder.uri, ...PROFILES_FILE.split("/"));
+  }
+
+  private async read(): Promise<ProfilesFile> {
+    const uri = this.getFileUri();
+
+    let content: Uint8Array;
+    try {
+      content = await vscode.workspace.fs.readFile(uri);
+    } catch {
+      return { version: PROFILES_FILE_VERSION, profiles: new Map() };
+    }
+
+    try {
+      const file = JSON.parse(Buffer.from(content).toString("utf8"));
+      return {
+        version: file.version ?? PROFILES_FILE_VERSION,
+        profiles: new Map(Object.entries(file.profiles ?? {})),
+      };
+    } catch (error) {
+      throw new Error(
+        `Invalid breakpoint profile file ${uri.fsPath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async write(file: ProfilesFile): Promise<void> {
+    const uri = this.getFileUri();
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, ".."));
+    const content = { version: file.version, profiles: Object.fromEntries(file.profiles) };
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(`${JSON.stringify(content, null, 2)}\n`, "utf8"));
+  }
+}
@@ -1,7 +1,80 @@
 import * as vscode from "vscode";
-import type { BreakpointInfo } from "@/types";
+import type {
+  BreakpointInfo,
+  BreakpointLocator,
+  BreakpointSessionStatus,
+  FunctionBreakpointInfo,
+  ResolvedBreakpointLocation,
+  SourceBreakpointInfo,
+  StopInfo,
+} from "@/types";
+
+// How long set/setFunction wait for running sessions to report whether the breakpoint bound
+const VERIFICATION_TIMEOUT_MS = 1500;
+
+/** A `setBreakpoints` or `setFunctionBreakpoints` request waiting for its response. */
+export type BreakpointRequest =
+  | { kind: "source"; path: string; lines: number[] }
+  | { kind: "function"; names: string[] };
+
+/** A breakpoint that stops in a single debug session, added for one run. */
+export interface SessionBreakpoint {
+  /** The line the adapter placed the breakpoint on. */
+  line: number;
+  verified: boolean;
+  message?: string;
+  /** A breakpoint the user had set on the line, which `remove` leaves in place. */
+  existing?: boolean;
+  remove(): Promise<void>;
+}
+
+// Listed in ambiguity errors
+const MAX_REPORTED_MATCHES = 10;
+
+const FUNCTION_SYMBOL_KINDS = [
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor,
+];
+
+interface SymbolCandidate {
+  path: string;
+  kind: vscode.SymbolKind;
+  range: vscode.Range;
+  selectionLine: number;
+}
+
+export function isCodeLine(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed !== "" &&
+    trimmed !== "{" &&
+    trimmed !== "}" &&
+    !/^(#|\/\/|\/\*|\*|"""|'''|@)/.test(trimmed);
+}
+
+export function sourceKey(filePath: string, line: number): string {
+  return `${vscode.Uri.file(filePath).fsPath}:${line}`;
+}
+
+export function functionKey(functionName: string): string {
+  return `function:${functionName}`;
+}
 
 export class Breakpoints {
+  // sessionId -> breakpoint key -> status reported by that session's adapter
+  private bindings: Map<string, Map<string, BreakpointSessionStatus>> = new Map();
+  // sessionId -> DAP breakpoint id -> breakpoint key, to apply `breakpoint` events
+  private adapterIds: Map<string, Map<number, string>> = new Map();
+  private bindingEmitter = new vscode.EventEmitter<string>();
+  // Keys of breakpoints removed after their first hit
+  private temporary: Set<string> = new Set();
+  // breakpoint key -> group tag, so breakpoints set together can be removed together
+  private tags: Map<string, string> = new Map();
+  // breakpoint key -> the only session it stops in; other sessions are continued past it
+  private scopes: Map<string, string> = new Map();
+
+  constructor(private getHitCount: (key: string) => number) {}
+
   async set(
     filePath: string,
     line: number,
@@ -9,8 +82,11 @@ export class Breakpoints {
       condition?: string;
       hitCondition?: string;
       logMessage?: string;
+      temporary?: boolean;
+      tag?: string;
+      sessionId?: string;
     },
-  ): Promise<BreakpointInfo> {
+  ): Promise<SourceBreakpointInfo> {
     const uri = vscode.Uri.file(filePath);
     const position = new vscode.Position(line - 1, 0);
 
@@ -22,9 +98,25 @@ export class Breakpoints {
       options?.logMessage,
     );
 
+    const key = sourceKey(filePath, line);
+    if (options?.temporary) {
+      this.temporary.add(key);
+    } else {
+      this.temporary.delete(key);
+    }
+    if (options?.tag) {
+      this.tags.set(key, options.tag);
+    } else {
+      this.tags.delete(key);
+    }
+    this.setScope(key, options?.sessionId);
+    const bound = this.waitForBinding(key);
     vscode.debug.addBreakpoints([breakpoint]);
+    await bound;
 
+    const sessions = this.getSessionStatus(key);
     return {
+      kind: "source",
       id: breakpoint.id,
       file: filePath,
       line,
@@ -32,7 +124,12 @@ export class Breakpoints {
       hitCondition: options?.hitCondition,
       logMessage: options?.logMessage,
       enabled: breakpoint.enabled,
-      verified: breakpoint.enabled,
+      verified: sessions.some((status) => status.verified),
+      sessions,
+      hitCount: this.getHitCount(key),
+      ...(options?.temporary && { temporary: true }),
+      ...(options?.tag && { tag: options.tag }),
+      ...(options?.sessionId && { sessionId: options.sessionId }),
     };
   }
 
@@ -51,29 +148,646 @@ export class Breakpoints {
     vscode.debug.removeBreakpoints(breakpoints);
   }
 
+  /**
+   * Turns a symbol path, a regular expression or a line with its expected text into a line
+   * number. Throws when nothing matches or when the match is ambiguous.
+   */
+  async resolveLocation(
+    filePath: string,
+    locator: BreakpointLocator,
+  ): Promise<ResolvedBreakpointLocation> {
+    const given = [locator.line, locator.symbol, locator.pattern].filter((v) => v !== undefined);
+    if (given.length !== 1) {
+      throw new Error("Provide exactly one of line, symbol or pattern");
+    }
+
+    // A plain line needs no document, so files that cannot be opened (yet) keep working
+    if (locator.line !== undefined && locator.expectedText === undefined) {
+      return { line: locator.line, text: "", resolvedFrom: "line" };
+    }
+
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    const lineText = (line: number) => document.lineAt(line - 1).text;
+
+    if (locator.symbol !== undefined) {
+      const line = await this.resolveSymbolLine(document, locator.symbol);
+      return { line, text: lineText(line), resolvedFrom: "symbol" };
+    }
+
+    if (locator.pattern !== undefined) {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(locator.pattern);
+      } catch (error) {
+        throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const line = this.findSingleLine(document, (text) => regex.test(text), `pattern /${locator.pattern}/`);
+      return { line, text: lineText(line), resolvedFrom: "pattern" };
+    }
+
+    const line = locator.line!;
+    if (line > document.lineCount) {
+      throw new Error(`Line ${line} is beyond the end of ${filePath} (${document.lineCount} lines)`);
+    }
+
+    // The file may have changed since the agent read it: accept the text if it moved
+    const expected = locator.expectedText!.trim();
+    if (lineText(line).includes(expected)) {
+      return { line, text: lineText(line), resolvedFrom: "line" };
+    }
+    const moved = this.findSingleLine(
+      document,
+      (text) => text.includes(expected),
+      `text "${expected}" (line ${line} does not contain it)`,
+    );
+    return { line: moved, text: lineText(moved), resolvedFrom: "text" };
+  }
+
+  private findSingleLine(
+    document: vscode.TextDocument,
+    matches: (text: string) => boolean,
+    description: string,
+  ): number {
+    const lines: number[] = [];
+    for (let index = 0; index < document.lineCount; index++) {
+      if (matches(document.lineAt(index).text)) {
+        lines.push(index + 1);
+      }
+    }
+
+    if (lines.length === 0) {
+      throw new Error(`No line in ${document.uri.fsPath} matches ${description}`);
+    }
+    if (lines.length > 1) {
+      const listed = lines.slice(0, MAX_REPORTED_MATCHES).join(", ");
+      throw new Error(
+        `Ambiguous ${description}: ${lines.length} lines match (${listed}${lines.length > MAX_REPORTED_MATCHES ? ", ..." : ""})`,
+      );
+    }
+    return lines[0];
+  }
+
+  /**
+   * Matches a dotted symbol path (e.g. "OrderService.submit") against the document symbols.
+   * A suffix of the full path is enough. Functions resolve to their first body line, since
+   * many debuggers treat a breakpoint on the declaration as "when the function is defined".
+   */
+  private async resolveSymbolLine(document: vscode.TextDocument, symbolPath: string): Promise<number> {
+    const symbols = await vscode.commands.executeCommand<
+      (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+    >("vscode.executeDocumentSymbolProvider", document.uri);
+
+    if (!symbols || symbols.length === 0) {
+      throw new Error(
+        `No symbols available for ${document.uri.fsPath}. Is a language extension for this file type installed?`,
+      );
+    }
+
+    const candidates: SymbolCandidate[] = [];
+    const collect = (symbol: vscode.DocumentSymbol, parentPath: string) => {
+      const path = parentPath ? `${parentPath}.${symbol.name}` : symbol.name;
+      candidates.push({
+        path,
+        kind: symbol.kind,
+        range: symbol.range,
+        selectionLine: symbol.selectionRange.start.line,
+      });
+      symbol.children.forEach((child) => collect(child, path));
+    };
+
+    for (const symbol of symbols) {
+      if ("children" in symbol) {
+        collect(symbol, "");
+      } else {
+        candidates.push({
+          path: symbol.containerName ? `${symbol.containerName}.${symbol.name}` : symbol.name,
+          kind: symbol.kind,
+          range: symbol.location.range,
+          selectionLine: symbol.location.range.start.line,
+        });
+      }
+    }
+
+    const matches = candidates.filter(
+      (candidate) => candidate.path === symbolPath || candidate.path.endsWith(`.${symbolPath}`),
+    );
+
+    if (matches.length === 0) {
+      throw new Error(`Symbol '${symbolPath}' not found in ${document.uri.fsPath}`);
+    }
+    if (matches.length > 1) {
+      const listed = matches
+        .slice(0, MAX_REPORTED_MATCHES)
+        .map((match) => `${match.path} (line ${match.selectionLine + 1})`)
+        .join(", ");
+      throw new Error(`Symbol '${symbolPath}' is ambiguous: ${listed}. Use a longer symbol path`);
+    }
+
+    const match = matches[0];
+    if (!FUNCTION_SYMBOL_KINDS.includes(match.kind)) {
+      return match.selectionLine + 1;
+    }
+    return this.findFirstBodyLine(document, match) + 1;
+  }
+
+  private findFirstBodyLine(document: vscode.TextDocument, symbol: SymbolCandidate): number {
+    const lastLine = Math.min(symbol.range.end.line, document.lineCount - 1);
+
+    // The signature ends at the first line opening a block (":" in Python, "{" elsewhere)
+    let bodyStart = -1;
+    for (let line = symbol.selectionLine; line <= lastLine; line++) {
+      const text = document.lineAt(line).text.trimEnd();
+      if (text.endsWith(":") || text.endsWith("{") || text.endsWith("=>")) {
+        bodyStart = line + 1;
+        break;
+      }
+    }
+    if (bodyStart === -1) {
+      return symbol.selectionLine;
+    }
+
+    let inDocstring = false;
+    for (let line = bodyStart; line <= lastLine; line++) {
+      const text = document.lineAt(line).text.trim();
+      const quotes = (text.match(/"""|'''/g) ?? []).length;
+      if (inDocstring || (quotes === 1 && /^("""|''')/.test(text))) {
+        // A docstring opened on this line or earlier closes on a line with one triple quote
+        inDocstring = inDocstring ? quotes === 0 : true;
+        continue;
+      }
+      if (isCodeLine(text)) {
+        return line;
+      }
+    }
+    return symbol.selectionLine;
+  }
+
+  /**
+   * Sets a breakpoint on a function by name. Replaces an existing breakpoint on the same function.
+   */
+  async setFunction(
+    functionName: string,
+    options?: {
+      condition?: string;
+      hitCondition?: string;
+      sessionId?: string;
+    },
+  ): Promise<FunctionBreakpointInfo> {
+    const previous = this.findFunctionBreakpoints(functionName);
+    const breakpoint = new vscode.FunctionBreakpoint(
+      functionName,
+      true,
+      options?.condition,
+      options?.hitCondition,
+    );
+
+    const key = functionKey(functionName);
+    this.setScope(key, options?.sessionId);
+    const bound = this.waitForBinding(key);
+    // Added before the old one is removed, so the state kept for the function is not forgotten
+    vscode.debug.addBreakpoints([breakpoint]);
+    vscode.debug.removeBreakpoints(previous);
+    await bound;
+
+    const sessions = this.getSessionStatus(key);
+    return {
+      kind: "function",
+      id: breakpoint.id,
+      functionName,
+      condition: options?.condition,
+      hitCondition: options?.hitCondition,
+      enabled: breakpoint.enabled,
+      verified: sessions.some((status) => status.verified),
+      sessions,
+      hitCount: this.getHitCount(key),
+      ...(options?.sessionId && { sessionId: options.sessionId }),
+    };
+  }
+
+  async removeFunction(functionName: string): Promise<void> {
+    const breakpoints = this.findFunctionBreakpoints(functionName);
+    if (breakpoints.length === 0) {
+      throw new Error(`No function breakpoint found for '${functionName}'`);
+    }
+
+    vscode.debug.removeBreakpoints(breakpoints);
+  }
+
+  private findFunctionBreakpoints(functionName: string): vscode.FunctionBreakpoint[] {
+    return vscode.debug.breakpoints.filter(
+      (bp): bp is vscode.FunctionBreakpoint =>
+        bp instanceof vscode.FunctionBreakpoint && bp.functionName === functionName,
+    );
+  }
+
   getAll(): BreakpointInfo[] {
-    return vscode.debug.breakpoints
-      .filter((bp) => bp instanceof vscode.SourceBreakpoint)
-      .map((bp) => {
-        const sbp = bp as vscode.SourceBreakpoint;
-        const column = sbp.location.range.start.character;
-        return {
+    return vscode.debug.breakpoints.flatMap((bp): BreakpointInfo[] => {
+      if (bp instanceof vscode.SourceBreakpoint) {
+        const column = bp.location.range.start.character;
+        const key = sourceKey(bp.location.uri.fsPath, bp.location.range.start.line + 1);
+        const sessions = this.getSessionStatus(key);
+        return [{
+          kind: "source",
           id: bp.id,
-          file: sbp.location.uri.fsPath,
-          line: sbp.location.range.start.line + 1,
+          file: bp.location.uri.fsPath,
+          line: bp.location.range.start.line + 1,
           ...(column > 0 && { column }),
-          condition: sbp.condition,
-          hitCondition: sbp.hitCondition,
-          logMessage: sbp.logMessage,
+          condition: bp.condition,
+          hitCondition: bp.hitCondition,
+          logMessage: bp.logMessage,
           enabled: bp.enabled,
-          verified: bp.enabled,
-        };
+          verified: sessions.some((status) => status.verified),
+          sessions,
+          hitCount: this.getHitCount(key),
+          ...(this.temporary.has(key) && { temporary: true }),
+          ...(this.tags.has(key) && { tag: this.tags.get(key) }),
+          ...(this.scopes.has(key) && { sessionId: this.scopes.get(key) }),
+        }];
+      }
+
+      if (bp instanceof vscode.FunctionBreakpoint) {
+        const key = functionKey(bp.functionName);
+        const sessions = this.getSessionStatus(key);
+        return [{
+          kind: "function",
+          id: bp.id,
+          functionName: bp.functionName,
+          condition: bp.condition,
+          hitCondition: bp.hitCondition,
+          logMessage: bp.logMessage,
+          enabled: bp.enabled,
+          verified: sessions.some((status) => status.verified),
+          sessions,
+          hitCount: this.getHitCount(key),
+          ...(this.temporary.has(key) && { temporary: true }),
+          ...(this.scopes.has(key) && { sessionId: this.scopes.get(key) }),
+        }];
+      }
+
+      return [];
+    });
+  }
+
+  /**
+   * Records the adapter's answer to a `setBreakpoints` or `setFunctionBreakpoints` request.
+   * The response lists breakpoints in request order and replaces what the session had before.
+   */
+  recordResponse(sessionId: string, request: BreakpointRequest, breakpoints: any[]): void {
+    const bindings = this.getSessionBindings(sessionId);
+    const adapterIds = this.getSessionAdapterIds(sessionId);
+
+    const keys = request.kind === "source"
+      ? request.lines.map((line) => sourceKey(request.path, line))
+      : request.names.map(functionKey);
+    const isReplaced = request.kind === "source"
+      ? (key: string) => key.startsWith(`${vscode.Uri.file(request.path).fsPath}:`)
+      : (key: string) => key.startsWith("function:");
+
+    for (const key of bindings.keys()) {
+      if (isReplaced(key)) {
+        bindings.delete(key);
+      }
+    }
+    for (const [id, key] of adapterIds) {
+      if (isReplaced(key)) {
+        adapterIds.delete(id);
+      }
+    }
+
+    keys.forEach((key, index) => {
+      const breakpoint = breakpoints[index];
+      if (!breakpoint) {
+        return;
+      }
+      bindings.set(key, this.toSessionStatus(sessionId, breakpoint));
+      if (typeof breakpoint.id === "number") {
+        adapterIds.set(breakpoint.id, key);
+      }
+      this.bindingEmitter.fire(key);
+    });
+  }
+
+  /**
+   * Applies a DAP `breakpoint` event, sent when the adapter verifies or moves a breakpoint later
+   * (e.g. once the module containing it is loaded).
+   */
+  recordEvent(sessionId: string, reason: string, breakpoint: any): void {
+    if (typeof breakpoint?.id !== "number") {
+      return;
+    }
+
+    const adapterIds = this.getSessionAdapterIds(sessionId);
+    const key = adapterIds.get(breakpoint.id);
+    if (!key) {
+      return;
+    }
+
+    const bindings = this.getSessionBindings(sessionId);
+    if (reason === "removed") {
+      bindings.delete(key);
+      adapterIds.delete(breakpoint.id);
+    } else {
+      // Some adapters omit the line when it did not change
+      bindings.set(key, this.toSessionStatus(sessionId, {
+        line: bindings.get(key)?.line,
+        ...breakpoint,
+      }));
+    }
+    this.bindingEmitter.fire(key);
+  }
+
+  /**
+   * Breakpoints are tracked by location rather than by ID, since VS Code assigns a new ID
+   * whenever a breakpoint is re-created at the same place.
+   */
+  getKey(breakpoint: vscode.Breakpoint): string | undefined {
+    if (breakpoint instanceof vscode.SourceBreakpoint) {
+      return sourceKey(breakpoint.location.uri.fsPath, breakpoint.location.range.start.line + 1);
+    }
+    if (breakpoint instanceof vscode.FunctionBreakpoint) {
+      return functionKey(breakpoint.functionName);
+    }
+    return undefined;
+  }
+
+  /**
+   * Keys of removed breakpoints that have no other breakpoint left at their location, whose
+   * per-location state must not pass on to a breakpoint set there later.
+   */
+  getRemovedKeys(removed: readonly vscode.Breakpoint[]): string[] {
+    const remaining = new Set(vscode.debug.breakpoints.map((bp) => this.getKey(bp)));
+    return Array.from(new Set(removed.map((bp) => this.getKey(bp))))
+      .filter((key): key is string => key !== undefined && !remaining.has(key));
+  }
+
+  getKeyById(id: string): string | undefined {
+    const breakpoint = vscode.debug.breakpoints.find((bp) => bp.id === id);
+    return breakpoint && this.getKey(breakpoint);
+  }
+
+  findIdByKey(key: string): string | undefined {
+    return vscode.debug.breakpoints.find((bp) => this.getKey(bp) === key)?.id;
+  }
+
+  /** Returns "file:line" for source breakpoints and the function name for function breakpoints. */
+  describeKey(key: string): string {
+    return key.startsWith("function:") ? key.slice("function:".length) : key;
+  }
+
+  resolveAdapterId(sessionId: string, adapterId: number): string | undefined {
+    return this.adapterIds.get(sessionId)?.get(adapterId);
+  }
+
+  resolveAdapterIds(sessionId: string, adapterIds: number[]): string[] {
+    return adapterIds
+      .map((id) => this.resolveAdapterId(sessionId, id))
+      .filter((key): key is string => key !== undefined);
+  }
+
+  /**
+   * Keys of the breakpoints a stop is attributed to: its `hitBreakpointIds`, or for adapters
+   * that omit them, the breakpoint at the location of the top stack frame.
+   */
+  async findStopKeys(
+    session: vscode.DebugSession,
+    stop: Pick<StopInfo, "reason" | "threadId" | "hitBreakpointIds">,
+  ): Promise<string[]> {
+    const keys = this.resolveAdapterIds(session.id, stop.hitBreakpointIds);
+    if (keys.length > 0 || stop.hitBreakpointIds.length > 0 || !stop.reason.includes("breakpoint")) {
+      return keys;
+    }
+    if (stop.threadId === undefined) {
+      return [];
+    }
+
+    try {
+      const response = await session.customRequest("stackTrace", { threadId: stop.threadId, startFrame: 0, levels: 1 });
+      const frame = response?.stackFrames?.[0];
+      const key = frame?.source?.path ? this.findKeyAtLocation(session.id, frame.source.path, frame.line) : undefined;
+      return key ? [key] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Finds the source breakpoint at a stop location, for adapters that do not report
+   * `hitBreakpointIds`. Matches the requested line as well as the line the adapter bound it to.
+   */
+  findKeyAtLocation(sessionId: string, filePath: string, line: number): string | undefined {
+    const bindings = this.bindings.get(sessionId);
+    const fsPath = vscode.Uri.file(filePath).fsPath;
+
+    for (const bp of vscode.debug.breakpoints) {
+      if (!(bp instanceof vscode.SourceBreakpoint) || bp.location.uri.fsPath !== fsPath) {
+        continue;
+      }
+      const key = sourceKey(fsPath, bp.location.range.start.line + 1);
+      if (bp.location.range.start.line + 1 === line || bindings?.get(key)?.line === line) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Removes the temporary breakpoints among the given keys, once they were hit.
+   */
+  removeTemporary(keys: string[]): void {
+    const hit = keys.filter((key) => this.temporary.has(key));
+    if (hit.length === 0) {
+      return;
+    }
+
+    hit.forEach((key) => this.temporary.delete(key));
+    vscode.debug.removeBreakpoints(
+      vscode.debug.breakpoints.filter((bp) => hit.includes(this.getKey(bp) ?? "")),
+    );
+  }
+
+  /**
+   * Whether the breakpoint stops in the given session, i.e. it is not scoped to another one.
+   */
+  appliesTo(key: string, sessionId: string): boolean {
+    const scope = this.scopes.get(key);
+    return scope === undefined || scope === sessionId;
+  }
+
+  /**
+   * Whether a breakpoint stop only hit breakpoints scoped to other sessions, so it has to be
+   * continued. Stops for other reasons, such as a step landing on such a line, are kept.
+   */
+  ignoresStop(sessionId: string, reason: string, keys: string[]): boolean {
+    return reason.includes("breakpoint") &&
+      keys.length > 0 &&
+      keys.every((key) => !this.appliesTo(key, sessionId));
+  }
+
+  isScoped(key: string): boolean {
+    return this.scopes.has(key);
+  }
+
+  hasScopedBreakpoints(): boolean {
+    return this.scopes.size > 0;
+  }
+
+  /** Drops the state kept for removed breakpoints, see `getRemovedKeys`. */
+  forget(keys: string[]): void {
+    for (const key of keys) {
+      this.scopes.delete(key);
+      this.temporary.delete(key);
+      this.tags.delete(key);
+    }
+  }
+
+  /**
+   * Removes the breakpoints scoped to a session that ended.
+   */
+  removeScopedTo(sessionId: string): void {
+    const keys = Array.from(this.scopes).filter(([, scope]) => scope === sessionId).map(([key]) => key);
+    if (keys.length === 0) {
+      return;
+    }
+
+    keys.forEach((key) => this.scopes.delete(key));
+    vscode.debug.removeBreakpoints(
+      vscode.debug.breakpoints.filter((bp) => keys.includes(this.getKey(bp) ?? "")),
+    );
+  }
+
+  private setScope(key: string, sessionId: string | undefined): void {
+    if (sessionId) {
+      this.scopes.set(key, sessionId);
+    } else {
+      this.scopes.delete(key);
+    }
+  }
+
+  /**
+   * Removes the breakpoints set with the given tag and returns how many there were.
+   */
+  removeTagged(tag: string): number {
+    const breakpoints = vscode.debug.breakpoints.filter((bp) => {
+      const key = this.getKey(bp);
+      return key !== undefined && this.tags.get(key) === tag;
+    });
+
+    for (const [key, value] of this.tags) {
+      if (value === tag) {
+        this.tags.delete(key);
+      }
+    }
+    vscode.debug.removeBreakpoints(breakpoints);
+    return breakpoints.length;
+  }
+
+  /**
+   * Adds a breakpoint that only stops in the given session, for a single run. An enabled
+   * breakpoint already on the line is used as is, so its condition and hit condition are kept.
+   */
+  async addSessionBreakpoint(
+    session: vscode.DebugSession,
+    filePath: string,
+    line: number,
+  ): Promise<SessionBreakpoint> {
+    const key = sourceKey(filePath, line);
+    const existing = vscode.debug.breakpoints.filter((bp) => this.getKey(bp) === key);
+    if (existing.length > 0) {
+      // A second breakpoint on the line would share, and then reset, its per-location state
+      if (!existing.some((bp) => bp.enabled) || !this.appliesTo(key, session.id)) {
+        throw new Error(
+          `The breakpoint at ${filePath}:${line} is disabled or scoped to another session. Enable or remove it first`,
+        );
+      }
+      const status = this.getSessionStatus(key).find((s) => s.sessionId === session.id);
+      return {
+        line: status?.line ?? line,
+        verified: status?.verified ?? false,
+        ...(status?.message && { message: status.message }),
+        existing: true,
+        remove: async () => {},
+      };
+    }
+
+    const bp = await this.set(filePath, line, { sessionId: session.id });
+    const status = bp.sessions.find((s) => s.sessionId === session.id);
+    return {
+      line: status?.line ?? line,
+      verified: status?.verified ?? false,
+      ...(status?.message && { message: status.message }),
+      remove: async () => {
+        vscode.debug.removeBreakpoints(vscode.debug.breakpoints.filter((candidate) => candidate.id === bp.id));
+      },
+    };
+  }
+
+  clearSession(sessionId: string): void {
+    this.bindings.delete(sessionId);
+    this.adapterIds.delete(sessionId);
+  }
+
+  private toSessionStatus(sessionId: string, breakpoint: any): BreakpointSessionStatus {
+    return {
+      sessionId,
+      verified: breakpoint.verified ?? false,
+      ...(breakpoint.line !== undefined && { line: breakpoint.line }),
+      ...(breakpoint.message && { message: breakpoint.message }),
+    };
+  }
+
+  private getSessionStatus(key: string): BreakpointSessionStatus[] {
+    return Array.from(this.bindings.values())
+      .map((bindings) => bindings.get(key))
+      .filter((status): status is BreakpointSessionStatus => status !== undefined);
+  }
+
+  private getSessionBindings(sessionId: string): Map<string, BreakpointSessionStatus> {
+    let bindings = this.bindings.get(sessionId);
+    if (!bindings) {
+      bindings = new Map();
+      this.bindings.set(sessionId, bindings);
+    }
+    return bindings;
+  }
+
+  private getSessionAdapterIds(sessionId: string): Map<number, string> {
+    let adapterIds = this.adapterIds.get(sessionId);
+    if (!adapterIds) {
+      adapterIds = new Map();
+      this.adapterIds.set(sessionId, adapterIds);
+    }
+    return adapterIds;
+  }
+
+  /**
+   * Resolves once a session reports on the breakpoint, or after a short timeout. Resolves
+   * immediately when no debug session is running, since nothing will report.
+   */
+  private waitForBinding(key: string): Promise<void> {
+    if (!vscode.debug.activeDebugSession) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const finish = () => {
+        clearTimeout(timeout);
+        listener.dispose();
+        resolve();
+      };
+      const timeout = setTimeout(finish, VERIFICATION_TIMEOUT_MS);
+      const listener = this.bindingEmitter.event((boundKey) => {
+        if (boundKey === key) {
+          finish();
+        }
       });
+    });
   }
 
-  getByFile(filePath: string): BreakpointInfo[] {
+  getByFile(filePath: string): SourceBreakpointInfo[] {
     const uri = vscode.Uri.file(filePath);
-    return this.getAll().filter((bp) => bp.file === uri.fsPath);
+    return this.getAll().filter(
+      (bp): bp is SourceBreakpointInfo => bp.kind === "source" && bp.file === uri.fsPath,
+    );
   }
 
   clearAll(): void {
@@ -109,8 +823,6 @@ export class Breakpoints {
     }
 
     const oldBp = breakpoints[0] as vscode.SourceBreakpoint;
-    vscode.debug.removeBreakpoints(breakpoints);
-
     const newBp = new vscode.SourceBreakpoint(
       oldBp.location,
       enabled,
@@ -119,6 +831,12 @@ export class Breakpoints {
       oldBp.logMessage,
     );
 
+    // Added before the old one is removed, so the location keeps its captures and actions
     vscode.debug.addBreakpoints([newBp]);
+    vscode.debug.removeBreakpoints(breakpoints);
+  }
+
+  dispose(): void {
+    this.bindingEmitter.dispose();
   }
 }
@@ -0,0 +1,194 @@
+import * as vscode from "vscode";
+import { getLogger } from "@/logger";
+import type { DataBreakpointAccessType, DataBreakpointEntry } from "@/types";
+import type { Sessions } from "./sessions";
+
+const logger = getLogger();
+
+/** A DAP `DataBreakpoint` as sent in a `setDataBreakpoints` request. */
+interface DapDataBreakpoint {
+  dataId: string;
+  accessType?: DataBreakpointAccessType;
+  condition?: string;
+  hitCondition?: string;
+}
+
+interface SessionDataBreakpoints {
+  // Set through MCP, by data ID
+  own: Map<string, DataBreakpointEntry>;
+  // The list VS Code sent last, i.e. the data breakpoints set in its UI
+  fromVscode: DapDataBreakpoint[];
+  // What the adapter has now, from the last `setDataBreakpoints` request and its response
+  current: DataBreakpointEntry[];
+  // The list this class sent last, to tell its requests from VS Code's
+  lastSent?: string;
+}
+
+/**
+ * Data breakpoints (watchpoints) set through MCP. DAP replaces a session's data breakpoints
+ * on every `setDataBreakpoints` request, and VS Code sends its own list whenever a data
+ * breakpoint changes in its UI. Both lists are therefore merged and resent, and the debug
+ * adapter tracker reports every request so the listing follows what the adapter has.
+ */
+export class DataBreakpoints {
+  private state: Map<string, SessionDataBreakpoints> = new Map();
+
+  constructor(private sessions: Sessions) {}
+
+  /**
+   * Sets a data breakpoint on a variable (its container's variablesReference and name) or,
+   * without a variablesReference, on an expression evaluated in the given frame.
+   */
+  async set(
+    session: vscode.DebugSession,
+    target: { name: string; variablesReference?: number; frameId?: number },
+    options: {
+      accessType: DataBreakpointAccessType;
+      condition?: string;
+      hitCondition?: string;
+    },
+  ): Promise<DataBreakpointEntry> {
+    if (!this.sessions.getCapabilities(session.id)?.supportsDataBreakpoints) {
+      throw new Error(
+        `The '${session.type}' debug adapter of session ${session.id} does not support data breakpoints`,
+      );
+    }
+
+    const info = await session.customRequest(
+      "dataBreakpointInfo",
+      target.variablesReference !== undefined
+        ? { variablesReference: target.variablesReference, name: target.name }
+        : { name: target.name, ...(target.frameId !== undefined && { frameId: target.frameId }) },
+    );
+
+    if (!info?.dataId) {
+      throw new Error(
+        `Cannot set a data breakpoint on '${target.name}': ${info?.description || "the adapter returned no data ID"}`,
+      );
+    }
+
+    const accessTypes: DataBreakpointAccessType[] | undefined = info.accessTypes;
+    if (accessTypes && !accessTypes.includes(options.accessType)) {
+      throw new Error(
+        `Access type '${options.accessType}' is not supported for '${target.name}'. Supported: ${accessTypes.join(", ")}`,
+      );
+    }
+
+    const state = this.getState(session.id);
+    const previous = state.own.get(info.dataId);
+    state.own.set(info.dataId, {
+      dataId: info.dataId,
+      description: info.description ?? target.name,
+      accessType: options.accessType,
+      condition: options.condition,
+      hitCondition: options.hitCondition,
+      origin: "mcp",
+      verified: false,
+    });
+    try {
+      await this.send(session);
+    } catch (error) {
+      if (previous) {
+        state.own.set(info.dataId, previous);
+      } else {
+        state.own.delete(info.dataId);
+      }
+      throw error;
+    }
+
+    logger.info("Data breakpoint set", {
+      sessionId: session.id,
+      dataId: info.dataId,
+      accessType: options.accessType,
+    });
+    return state.current.find((entry) => entry.dataId === info.dataId) ?? state.own.get(info.dataId)!;
+  }
+
+  /**
+   * Removes a data breakpoint set through MCP. Those set in VS Code are only removed there,
+   * since VS Code would send them again.
+   */
+  async remove(session: vscode.DebugSession, dataId: string): Promise<void> {
+    const state = this.getState(session.id);
+    if (!state.own.has(dataId)) {
+      if (state.current.some((entry) => entry.dataId === dataId)) {
+        throw new Error(`Data breakpoint ${dataId} was set in VS Code. Remove it in the Breakpoints view`);
+      }
+      throw new Error(`No data breakpoint ${dataId} in session ${session.id}`);
+    }
+
+    state.own.delete(dataId);
+    await this.send(session);
+    logger.info("Data breakpoint removed", { sessionId: session.id, dataId });
+  }
+
+  getAll(sessionId: string): DataBreakpointEntry[] {
+    return [...(this.state.get(sessionId)?.current ?? [])];
+  }
+
+  /**
+   * Records a `setDataBreakpoints` request and the adapter's answer. A request from VS Code
+   * replaced the MCP data breakpoints in the adapter, so they are sent again with its list.
+   */
+  recordResponse(session: vscode.DebugSession, requested: DapDataBreakpoint[], results: any[]): void {
+    const state = this.getState(session.id);
+    const fromVscode = JSON.stringify(requested) !== state.lastSent;
+    if (fromVscode) {
+      state.fromVscode = requested;
+    }
+
+    state.current = requested.map((bp, index) => {
+      const own = state.own.get(bp.dataId);
+      return {
+        dataId: bp.dataId,
+        description: own?.description ?? bp.dataId,
+        accessType: bp.accessType ?? "write",
+        condition: bp.condition,
+        hitCondition: bp.hitCondition,
+        origin: own ? "mcp" : "vscode",
+        verified: results[index]?.verified ?? false,
+        ...(results[index]?.message && { message: results[index].message }),
+      };
+    });
+
+    if (fromVscode && state.own.size > 0) {
+      this.send(session).catch((error) => {
+        logger.warn("Failed to restore data breakpoints after VS Code replaced them", {
+          sessionId: session.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+
+  clear(sessionId: string): void {
+    this.state.delete(sessionId);
+  }
+
+  private getState(sessionId: string): SessionDataBreakpoints {
+    let state = this.state.get(sessionId);
+    if (!state) {
+      state = { own: new Map(), fromVscode: [], current: [] };
+      this.state.set(sessionId, state);
+    }
+    return state;
+  }
+
+  private async send(session: vscode.DebugSession): Promise<void> {
+    const state = this.getState(session.id);
+    const breakpoints: DapDataBreakpoint[] = [
+      ...state.fromVscode.filter((bp) => !state.own.has(bp.dataId)),
+      ...Array.from(state.own.values()).map((entry) => ({
+        dataId: entry.dataId,
+        accessType: entry.accessType,
+        ...(entry.condition && { condition: entry.condition }),
+        ...(entry.hitCondition && { hitCondition: entry.hitCondition }),
+      })),
+    ];
+
+    state.lastSent = JSON.stringify(breakpoints);
+    const response = await session.customRequest("setDataBreakpoints", { breakpoints });
+    // The tracker sees the same response; recording it twice is harmless
+    this.recordResponse(session, breakpoints, response?.breakpoints ?? []);
+  }
+}
@@ -1,27 +1,315 @@
 import * as vscode from "vscode";
 import { getLogger } from "@/logger";
+import { Mutex } from "@/mutex";
+import type { DebugEvent, StopInfo } from "@/types";
 import { Sessions } from "./sessions";
-import { Breakpoints } from "./breakpoints";
+import { Breakpoints, type BreakpointRequest } from "./breakpoints";
 import { Execution } from "./execution";
 import { Inspection } from "./inspection";
+import { ProgramOutput } from "./output";
+import { Exceptions } from "./exceptions";
+import { DataBreakpoints } from "./data-breakpoints";
+import { BreakpointProfiles } from "./breakpoint-profiles";
+import { BreakpointHits } from "./breakpoint-hits";
+import { Traces } from "./traces";
+import { BreakpointActions } from "./breakpoint-actions";
+import { DiffBreakpoints } from "./diff-breakpoints";
 
 const logger = getLogger();
 
+// Output entries kept with a terminated session in the history
+const HISTORY_OUTPUT_TAIL = 50;
+
+// Requests by which the client ends a session
+const TERMINATING_COMMANDS = new Set(["disconnect", "terminate"]);
+
+// Requests whose failure means the session never started
+const STARTUP_COMMANDS = new Set(["initialize", "launch", "attach"]);
+
+// Requests whose successful response means the debuggee is running again.
+// Adapters do not send a `continued` event for resumes the client asked for.
+const RESUMING_COMMANDS = new Set([
+  "continue",
+  "next",
+  "stepIn",
+  "stepOut",
+  "stepBack",
+  "reverseContinue",
+  "goto",
+]);
+
 export class Debug {
   public sessions: Sessions;
   public breakpoints: Breakpoints;
   public execution: Execution;
   public inspection: Inspection;
+  public output: ProgramOutput;
+  public exceptions: Exceptions;
+  public dataBreakpoints: DataBreakpoints;
+  public profiles: BreakpointProfiles;
+  public breakpointHits: BreakpointHits;
+  public traces: Traces;
+  public breakpointActions: BreakpointActions;
+  public diffBreakpoints: DiffBreakpoints;
+
+  /**
+   * Serializes MCP tools with the processing of breakpoint stops, so no tool resumes a thread
+   * before its captures and actions have run.
+   */
+  readonly mutex = new Mutex();
 
   private disposables: vscode.Disposable[] = [];
+  private eventEmitter = new vscode.EventEmitter<DebugEvent>();
+
+  /** Debug events worth pushing to MCP clients. */
+  readonly onDidDebugEvent = this.eventEmitter.event;
 
   constructor() {
-    this.sessions = new Sessions();
-    this.breakpoints = new Breakpoints();
-    this.execution = new Execution();
+    this.output = new ProgramOutput();
+    this.sessions = new Sessions(
+      (sessionId) => this.output.query(sessionId, { tail: HISTORY_OUTPUT_TAIL }).entries,
+    );
+    this.breakpoints = new Breakpoints((key) => this.breakpointHits.count(key));
+    this.execution = new Execution(this.sessions);
     this.inspection = new Inspection();
+    this.exceptions = new Exceptions(this.sessions);
+    this.dataBreakpoints = new DataBreakpoints(this.sessions);
+    this.profiles = new BreakpointProfiles(this.exceptions, this.breakpoints);
+    this.breakpointHits = new BreakpointHits(this.breakpoints);
+    this.traces = new Traces();
+    this.breakpointActions = new BreakpointActions(this.breakpoints, this.inspection);
+    this.diffBreakpoints = new DiffBreakpoints(this.breakpoints);
 
     this.registerDebugEventHandlers();
+    this.registerDebugAdapterTracker();
+  }
+
+  private registerDebugAdapterTracker(): void {
+    this.disposables.push(
+      vscode.debug.registerDebugAdapterTrackerFactory("*", {
+        createDebugAdapterTracker: (session) => this.createTracker(session),
+      }),
+    );
+  }
+
+  private createTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+    const pendingResumes = new Map<number, { command: string; arguments?: any }>();
+    const pendingBreakpoints = new Map<number, BreakpointRequest>();
+    const pendingDataBreakpoints = new Map<number, any[]>();
+
+    return {
+      onWillReceiveMessage: (message: any) => {
+        if (message.type === "request") {
+          const request = this.toBreakpointRequest(message);
+          if (request) {
+            pendingBreakpoints.set(message.seq, request);
+          }
+          if (message.command === "setDataBreakpoints") {
+            pendingDataBreakpoints.set(message.seq, message.arguments?.breakpoints ?? []);
+          }
+        }
+        if (message.type === "request" && TERMINATING_COMMANDS.has(message.command)) {
+          this.sessions.markTerminationRequested(session.id);
+        }
+        if (message.type === "request" && RESUMING_COMMANDS.has(message.command)) {
+          pendingResumes.set(message.seq, {
+            command: message.command,
+            arguments: message.arguments,
+          });
+        }
+      },
+      onDidSendMessage: (message: any) => {
+        if (message.type === "event") {
+          this.handleAdapterEvent(session, message);
+          return;
+        }
+
+        if (message.type === "response") {
+          if (!message.success && STARTUP_COMMANDS.has(message.command)) {
+            this.sessions.reportLaunchFailure(
+              session,
+              message.body?.error?.format ?? message.message ?? `${message.command} request failed`,
+            );
+            return;
+          }
+
+          if (message.success && message.command === "initialize") {
+            this.sessions.updateCapabilities(session.id, message.body ?? {});
+          }
+          if (message.success && message.command === "configurationDone") {
+            void this.exceptions.reapply(session);
+          }
+
+          const breakpointRequest = pendingBreakpoints.get(message.request_seq);
+          if (breakpointRequest) {
+            pendingBreakpoints.delete(message.request_seq);
+            if (message.success) {
+              this.breakpoints.recordResponse(
+                session.id,
+                breakpointRequest,
+                message.body?.breakpoints ?? [],
+              );
+            }
+            return;
+          }
+
+          const dataBreakpoints = pendingDataBreakpoints.get(message.request_seq);
+          if (dataBreakpoints) {
+            pendingDataBreakpoints.delete(message.request_seq);
+            if (message.success) {
+              this.dataBreakpoints.recordResponse(session, dataBreakpoints, message.body?.breakpoints ?? []);
+            }
+            return;
+          }
+
+          const request = pendingResumes.get(message.request_seq);
+          if (!request) {
+            return;
+          }
+          pendingResumes.delete(message.request_seq);
+
+          if (message.success) {
+            const allThreadsContinued = request.command === "continue"
+              ? message.body?.allThreadsContinued ?? true
+              : !request.arguments?.singleThread;
+            this.sessions.markContinued(
+              session.id,
+              request.arguments?.threadId,
+              allThreadsContinued,
+            );
+          }
+        }
+      },
+      onError: (error: Error) => {
+        const reason = `Debug adapter error: ${error.message}`;
+        this.sessions.reportLaunchFailure(session, reason);
+        this.sessions.markAdapterFailure(session.id, reason);
+      },
+      onExit: (code: number | undefined, signal: string | undefined) => {
+        if (code || signal) {
+          const reason = `Debug adapter exited${code ? ` with code ${code}` : ""}${signal ? ` (signal ${signal})` : ""}`;
+          this.sessions.reportLaunchFailure(session, reason);
+          this.sessions.markAdapterFailure(session.id, reason);
+        }
+      },
+    };
+  }
+
+  private toBreakpointRequest(message: any): BreakpointRequest | undefined {
+    const args = message.arguments ?? {};
+
+    if (message.command === "setBreakpoints" && args.source?.path) {
+      return {
+        kind: "source",
+        path: args.source.path,
+        lines: (args.breakpoints ?? []).map((bp: any) => bp.line),
+      };
+    }
+    if (message.command === "setFunctionBreakpoints") {
+      return {
+        kind: "function",
+        names: (args.breakpoints ?? []).map((bp: any) => bp.name),
+      };
+    }
+    return undefined;
+  }
+
+  private handleAdapterEvent(session: vscode.DebugSession, message: any): void {
+    const body = message.body ?? {};
+
+    switch (message.event) {
+      case "stopped": {
+        const stop: StopInfo = {
+          reason: body.reason,
+          threadId: body.threadId,
+          description: body.description,
+          text: body.text,
+          allThreadsStopped: body.allThreadsStopped ?? false,
+          hitBreakpointIds: body.hitBreakpointIds ?? [],
+          timestamp: Date.now(),
+        };
+        if (stop.hitBreakpointIds.length === 0 && stop.reason.includes("breakpoint") &&
+          (this.breakpoints.hasScopedBreakpoints() || this.breakpointActions.hasAutoContinue())) {
+          // Without hitBreakpointIds, only the stop location tells whether the breakpoint is
+          // scoped to another session or continues after its actions, so the stop is reported
+          // once it is known
+          const resumeCount = this.sessions.getSessionNode(session.id)?.resumeCount;
+          this.breakpoints.findStopKeys(session, stop)
+            .then((keys) => {
+              // A `continued` or `terminated` event that arrived meanwhile makes the stop stale
+              const node = this.sessions.getSessionNode(session.id);
+              if (node && node.state !== "stopped" && node.resumeCount === resumeCount) {
+                this.markStopped(session, stop, keys);
+              }
+            })
+            .catch((error) => {
+              logger.warn("Failed to process a stopped event", {
+                sessionId: session.id,
+                error: error instanceof Error ? error.message : String(error),
+              });
+            });
+        } else {
+          this.markStopped(session, stop, this.breakpoints.resolveAdapterIds(session.id, stop.hitBreakpointIds));
+        }
+        break;
+      }
+      case "continued":
+        this.sessions.markContinued(
+          session.id,
+          body.threadId,
+          body.allThreadsContinued ?? true,
+        );
+        break;
+      case "breakpoint":
+        this.breakpoints.recordEvent(session.id, body.reason, body.breakpoint);
+        break;
+      case "capabilities":
+        this.sessions.updateCapabilities(session.id, body.capabilities ?? {});
+        break;
+      case "thread":
+        if (body.reason === "started" || body.reason === "exited") {
+          this.sessions.updateThread(session.id, body.threadId, body.reason);
+        }
+        break;
+      case "exited":
+        this.sessions.markExited(session.id, body.exitCode);
+        break;
+      case "terminated":
+        this.sessions.markTerminated(session.id);
+        break;
+      case "output":
+        if (!body.output || this.traces.consume(session.id, body)) {
+          break;
+        }
+        this.output.append(
+          session.id,
+          body.category ?? "console",
+          body.output,
+          body.source?.path ? { file: body.source.path, line: body.line } : undefined,
+        );
+        if (body.category !== "telemetry") {
+          this.eventEmitter.fire({
+            type: "output",
+            sessionId: session.id,
+            category: body.category ?? "console",
+            output: body.output,
+          });
+        }
+        break;
+    }
+  }
+
+  private markStopped(session: vscode.DebugSession, stop: StopInfo, keys: string[]): void {
+    const outOfScope = this.breakpoints.ignoresStop(session.id, stop.reason, keys);
+    this.sessions.markStopped(session.id, {
+      ...stop,
+      ...(outOfScope && { outOfScope: true }),
+      ...((outOfScope || this.breakpointActions.continuesAfter(
+        keys.filter((key) => this.breakpoints.appliesTo(key, session.id)),
+      )) && {
+        autoContinue: true,
+      }),
+    });
   }
 
   private registerDebugEventHandlers(): void {
@@ -33,6 +321,13 @@ export class Debug {
           name: session.name,
           type: session.type,
         });
+        this.eventEmitter.fire({
+          type: "sessionStarted",
+          sessionId: session.id,
+          name: session.name,
+          sessionType: session.type,
+          parent: session.parentSession?.id ?? null,
+        });
       }),
     );
 
@@ -43,6 +338,72 @@ export class Debug {
       }),
     );
 
+    this.disposables.push(
+      this.sessions.onDidTerminate((sessionId) => {
+        this.output.markTerminated(sessionId);
+        this.dataBreakpoints.clear(sessionId);
+        this.breakpoints.clearSession(sessionId);
+        this.breakpoints.removeScopedTo(sessionId);
+        this.eventEmitter.fire({
+          type: "sessionTerminated",
+          sessionId,
+          exitCode: this.sessions.getSessionNode(sessionId)?.exitCode,
+        });
+      }),
+    );
+
+    // Breakpoint hits and exceptions
+    this.disposables.push(
+      this.sessions.onDidStop(({ sessionId, stop }) => {
+        const session = this.sessions.getSession(sessionId);
+        if (session && stop.outOfScope) {
+          // Only breakpoints scoped to other sessions were hit
+          session.customRequest("continue", { threadId: stop.threadId }).then(undefined, (error) => {
+            logger.warn("Failed to continue past a breakpoint of another session", {
+              sessionId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+          return;
+        }
+        if (session) {
+          // Queued on the mutex right away, ahead of any tool called in reaction to this stop
+          void this.mutex.runExclusive(async () => {
+            const keys = await this.breakpointHits.record(session, stop);
+            this.breakpoints.removeTemporary(keys);
+            await this.breakpointActions.run(session, stop, keys);
+          }).catch((error) => {
+            logger.warn("Failed to process a breakpoint stop", {
+              sessionId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+        }
+
+        // Stops that resume on their own would flood clients; their results are recorded instead
+        if (stop.autoContinue) {
+          return;
+        }
+
+        if (stop.reason.includes("breakpoint")) {
+          this.eventEmitter.fire({
+            type: "breakpointHit",
+            sessionId,
+            threadId: stop.threadId,
+            hitBreakpointIds: stop.hitBreakpointIds,
+          });
+        } else if (stop.reason === "exception") {
+          this.eventEmitter.fire({
+            type: "exception",
+            sessionId,
+            threadId: stop.threadId,
+            description: stop.description,
+            text: stop.text,
+          });
+        }
+      }),
+    );
+
     // Breakpoint changed
     this.disposables.push(
       vscode.debug.onDidChangeBreakpoints((event) => {
@@ -51,6 +412,11 @@ export class Debug {
         }
         if (event.removed.length > 0) {
           logger.debug("Breakpoints removed", { count: event.removed.length });
+          const keys = this.breakpoints.getRemovedKeys(event.removed);
+          this.breakpoints.forget(keys);
+          this.breakpointHits.forget(keys);
+          this.breakpointActions.forget(keys);
+          this.traces.handleRemoved(event.removed);
         }
         if (event.changed.length > 0) {
           logger.debug("Breakpoints changed", { count: event.changed.length });
@@ -69,8 +435,11 @@ export class Debug {
   }
 
   dispose(): void {
-    this.sessions.dispose();
     this.disposables.forEach((d) => d.dispose());
     this.disposables = [];
+    this.eventEmitter.dispose();
+    this.sessions.dispose();
+    this.breakpoints.dispose();
+    this.traces.dispose();
   }
 }
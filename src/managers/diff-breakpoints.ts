@@ -0,0 +1,207 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { getLogger } from "@/logger";
+import type { DiffBreakpoint, DiffBreakpointsResult, SkippedDiffHunk } from "@/types";
+import { isCodeLine, type Breakpoints } from "./breakpoints";
+
+const logger = getLogger();
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_TAG = "diff";
+
+// Lines searched after a pure deletion for the first line that runs in its place
+const DELETION_LOOKAHEAD = 5;
+
+const GIT_MAX_BUFFER = 16 * 1024 * 1024;
+
+// A git waiting on a credential prompt or a lock would otherwise hold the tool mutex forever
+const GIT_TIMEOUT_MS = 30000;
+
+const HUNK_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+
+interface Hunk {
+  file: string;
+  header: string;
+  start: number;
+  count: number;
+}
+
+/**
+ * Places breakpoints on the hunks of a local `git diff`, one per hunk on its first executable
+ * line. They share a tag so they can be removed together once the review is done.
+ */
+export class DiffBreakpoints {
+  constructor(private breakpoints: Breakpoints) {}
+
+  /**
+   * Compares the working tree with `base` (HEAD by default), so line numbers match the files
+   * the debugger runs. Throws before placing anything when there are more than
+   * `maxBreakpoints` hunks.
+   */
+  async set(options: {
+    base?: string;
+    paths?: string[];
+    repository?: string;
+    tag?: string;
+    condition?: string;
+    maxBreakpoints: number;
+  }): Promise<DiffBreakpointsResult> {
+    const base = options.base ?? "HEAD";
+    const tag = options.tag ?? DEFAULT_TAG;
+    const root = await this.getRepositoryRoot(options.repository);
+    const commit = await this.resolveCommit(root, base);
+
+    const diff = await this.git(root, [
+      "-c", "core.quotePath=false",
+      "diff", "--no-color", "--no-ext-diff", "--no-prefix", "--unified=0", commit,
+      "--", ...(options.paths ?? []),
+    ]);
+    const hunks = this.parseHunks(diff, root);
+
+    const debuggable = this.getDebuggableLanguages();
+    const placements: DiffBreakpoint[] = [];
+    const skipped: SkippedDiffHunk[] = [];
+    const documents = new Map<string, vscode.TextDocument>();
+
+    for (const hunk of hunks) {
+      let document = documents.get(hunk.file);
+      if (!document) {
+        try {
+          document = await vscode.workspace.openTextDocument(vscode.Uri.file(hunk.file));
+        } catch {
+          skipped.push({ file: hunk.file, hunk: hunk.header, reason: "file cannot be opened" });
+          continue;
+        }
+        documents.set(hunk.file, document);
+      }
+
+      if (debuggable.size > 0 && !debuggable.has(document.languageId)) {
+        skipped.push({ file: hunk.file, hunk: hunk.header, reason: `no debugger supports ${document.languageId}` });
+        continue;
+      }
+
+      const line = this.findExecutableLine(document, hunk);
+      if (line === undefined) {
+        skipped.push({ file: hunk.file, hunk: hunk.header, reason: "no executable line" });
+        continue;
+      }
+      if (this.breakpoints.getByFile(hunk.file).some((bp) => bp.line === line)) {
+        skipped.push({ file: hunk.file, hunk: hunk.header, reason: `a breakpoint already exists at line ${line}` });
+        continue;
+      }
+      if (!placements.some((p) => p.file === hunk.file && p.line === line)) {
+        placements.push({ file: hunk.file, line, hunk: hunk.header });
+      }
+    }
+
+    if (placements.length > options.maxBreakpoints) {
+      throw new Error(
+        `The diff against ${base} has ${placements.length} hunks to break on, more than ${options.maxBreakpoints}. ` +
+          "Narrow it down with paths or raise maxBreakpoints",
+      );
+    }
+
+    await Promise.all(placements.map((placement) =>
+      this.breakpoints.set(placement.file, placement.line, { condition: options.condition, tag })));
+
+    logger.info("Breakpoints set from diff", { base, tag, placed: placements.length, skipped: skipped.length });
+    return { tag, base, breakpoints: placements, skipped };
+  }
+
+  private async getRepositoryRoot(repository: string | undefined): Promise<string> {
+    const folder = repository ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!folder) {
+      throw new Error("No repository given and no workspace folder is open");
+    }
+    return (await this.git(folder, ["rev-parse", "--show-toplevel"])).trim();
+  }
+
+  /**
+   * Resolves the ref to a commit hash, so it never reaches `git diff` where a value starting
+   * with "-" would be read as an option (e.g. `--output=<file>`).
+   */
+  private async resolveCommit(root: string, ref: string): Promise<string> {
+    if (ref.startsWith("-")) {
+      throw new Error(`Invalid git ref '${ref}'`);
+    }
+    try {
+      return (await this.git(root, ["rev-parse", "--verify", "--quiet", "--end-of-options", `${ref}^{commit}`]))
+        .trim();
+    } catch {
+      throw new Error(`Unknown git ref '${ref}' in ${root}`);
+    }
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync("git", args, {
+        cwd,
+        maxBuffer: GIT_MAX_BUFFER,
+        timeout: GIT_TIMEOUT_MS,
+        // Fail instead of waiting for credentials nobody can enter
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+      });
+      return stdout;
+    } catch (error) {
+      // execFile adds the process's `killed` flag and stderr to the errors it rejects with
+      const failure = error instanceof Error ? error as Error & { killed?: boolean; stderr?: string } : undefined;
+      if (failure?.killed) {
+        throw new Error(`git timed out after ${GIT_TIMEOUT_MS / 1000} seconds in ${cwd}`);
+      }
+      const detail = failure?.stderr?.trim() || (error instanceof Error ? error.message : String(error));
+      throw new Error(`git failed in ${cwd}: ${detail}`);
+    }
+  }
+
+  private parseHunks(diff: string, root: string): Hunk[] {
+    const hunks: Hunk[] = [];
+    let file: string | undefined;
+
+    for (const line of diff.split("\n")) {
+      if (line.startsWith("+++ ")) {
+        // Deleted files have no new side; paths with spaces end with a tab
+        const target = line.slice(4).replace(/\t$/, "");
+        file = target === "/dev/null" ? undefined : path.join(root, target);
+        continue;
+      }
+
+      const match = HUNK_PATTERN.exec(line);
+      if (match && file) {
+        hunks.push({
+          file,
+          header: match[0],
+          start: Number(match[1]),
+          count: match[2] === undefined ? 1 : Number(match[2]),
+        });
+      }
+    }
+    return hunks;
+  }
+
+  /**
+   * The first code line of the hunk, or for a pure deletion the first code line after it.
+   */
+  private findExecutableLine(document: vscode.TextDocument, hunk: Hunk): number | undefined {
+    const [first, last] = hunk.count > 0
+      ? [hunk.start, hunk.start + hunk.count - 1]
+      : [hunk.start + 1, hunk.start + DELETION_LOOKAHEAD];
+
+    for (let line = first; line <= Math.min(last, document.lineCount); line++) {
+      if (isCodeLine(document.lineAt(line - 1).text)) {
+        return line;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Languages that some installed debugger accepts breakpoints in, from the `breakpoints`
+   * contribution point VS Code itself uses to allow breakpoints in the editor.
+   */
+  private getDebuggableLanguages(): Set<string> {
+    return new Set(vscode.extensions.all.flatMap((extension) =>
+      (extension.packageJSON?.contributes?.breakpoints ?? []).map((bp: { language: string }) => bp.language)));
+  }
+}
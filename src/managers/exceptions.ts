@@ -0,0 +1,153 @@
+import * as vscode from "vscode";
+import { getLogger } from "@/logger";
+import type { ExceptionFilterChoice, ExceptionFilterInfo, ExceptionFilterSetting } from "@/types";
+import type { Sessions } from "./sessions";
+
+const logger = getLogger();
+
+/**
+ * Exception breakpoint filters chosen through MCP, kept per launch configuration so they are
+ * re-applied when a session for that configuration restarts.
+ */
+export class Exceptions {
+  private choices: Map<string, ExceptionFilterChoice> = new Map();
+
+  constructor(private sessions: Sessions) {}
+
+  getFilters(session: vscode.DebugSession): {
+    available: ExceptionFilterInfo[];
+    supportsConditions: boolean;
+    applied?: ExceptionFilterSetting[];
+  } {
+    const capabilities = this.sessions.getCapabilities(session.id);
+    if (!capabilities) {
+      throw new Error(
+        `Capabilities of session ${session.id} are unknown. It was probably started before the extension was activated`,
+      );
+    }
+
+    return {
+      available: capabilities.exceptionBreakpointFilters ?? [],
+      supportsConditions: capabilities.supportsExceptionFilterOptions ?? false,
+      applied: this.choices.get(this.getSessionKey(session))?.filters,
+    };
+  }
+
+  /**
+   * Enables exactly the given filters. An empty list disables exception breakpoints and
+   * forgets the stored choice. Returns the adapter's verification result per filter, if any.
+   */
+  async apply(session: vscode.DebugSession, settings: ExceptionFilterSetting[]): Promise<any[]> {
+    const { available, supportsConditions } = this.getFilters(session);
+
+    for (const setting of settings) {
+      const filter = available.find((f) => f.filter === setting.filterId);
+      if (!filter) {
+        const known = available.map((f) => f.filter).join(", ") || "none";
+        throw new Error(`Unknown exception filter '${setting.filterId}'. Available filters: ${known}`);
+      }
+      if (setting.condition && (!supportsConditions || !filter.supportsCondition)) {
+        throw new Error(`Exception filter '${setting.filterId}' does not support conditions`);
+      }
+    }
+
+    const breakpoints = await this.send(session, settings, supportsConditions);
+
+    const choice: ExceptionFilterChoice = {
+      type: session.type,
+      request: session.configuration.request,
+      name: session.configuration.name,
+      ...(session.workspaceFolder && { workspaceFolder: session.workspaceFolder.name }),
+      filters: settings,
+    };
+    if (settings.length > 0) {
+      this.choices.set(this.getChoiceKey(choice), choice);
+    } else {
+      this.choices.delete(this.getChoiceKey(choice));
+    }
+
+    logger.info("Exception breakpoints applied", {
+      sessionId: session.id,
+      filters: settings.map((s) => s.filterId),
+    });
+    return breakpoints;
+  }
+
+  /**
+   * Re-sends the stored choice once a (re)started session finished its configuration,
+   * overriding the filters VS Code sent from the Breakpoints view.
+   */
+  async reapply(session: vscode.DebugSession): Promise<void> {
+    const choice = this.choices.get(this.getSessionKey(session));
+    if (!choice) {
+      return;
+    }
+
+    try {
+      const supportsConditions =
+        this.sessions.getCapabilities(session.id)?.supportsExceptionFilterOptions ?? false;
+      await this.send(session, choice.filters, supportsConditions);
+      logger.debug("Exception breakpoints re-applied", { sessionId: session.id });
+    } catch (error) {
+      logger.warn("Failed to re-apply exception breakpoints", {
+        sessionId: session.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async send(
+    session: vscode.DebugSession,
+    settings: ExceptionFilterSetting[],
+    supportsConditions: boolean,
+  ): Promise<any[]> {
+    const args = supportsConditions
+      ? {
+          filters: [],
+          filterOptions: settings.map((setting) => ({
+            filterId: setting.filterId,
+            ...(setting.condition && { condition: setting.condition }),
+          })),
+        }
+      : { filters: settings.map((setting) => setting.filterId) };
+
+    const response = await session.customRequest("setExceptionBreakpoints", args);
+    return response?.breakpoints ?? [];
+  }
+
+  getChoices(): ExceptionFilterChoice[] {
+    return Array.from(this.choices.values());
+  }
+
+  /**
+   * Stores choices restored from a breakpoint profile, replacing all current ones or only those
+   * for the same configurations, and applies them to the running sessions they concern.
+   */
+  async restoreChoices(choices: ExceptionFilterChoice[], replace: boolean): Promise<void> {
+    if (replace) {
+      this.choices.clear();
+    }
+    for (const choice of choices) {
+      this.choices.set(this.getChoiceKey(choice), choice);
+    }
+
+    const running = this.sessions
+      .getAllSessions()
+      .map((info) => this.sessions.getSession(info.id))
+      .filter((session): session is vscode.DebugSession => session !== undefined);
+    await Promise.all(running.map((session) => this.reapply(session)));
+  }
+
+  private getChoiceKey(choice: Omit<ExceptionFilterChoice, "filters">): string {
+    return [choice.type, choice.request, choice.name, choice.workspaceFolder ?? ""].join("|");
+  }
+
+  private getSessionKey(session: vscode.DebugSession): string {
+    return this.getChoiceKey({
+      type: session.type,
+      request: session.configuration.request,
+      name: session.configuration.name,
+      workspaceFolder: session.workspaceFolder?.name,
+    });
+  }
+}
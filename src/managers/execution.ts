@@ -1,50 +1,41 @@
 import * as vscode from "vscode";
 import { getLogger } from "@/logger";
-import type { ThreadInfo } from "@/types";
+import type { ExecutionOptions, StepOptions, ThreadInfo } from "@/types";
+import { getFrameFromActiveStackItem } from "./frames";
+import type { Sessions } from "./sessions";
 
 const logger = getLogger();
 
 export class Execution {
-  async continue(session?: vscode.DebugSession): Promise<void> {
-    const targetSession = session || vscode.debug.activeDebugSession;
-    if (!targetSession) {
-      throw new Error("No active debug session");
-    }
-    await vscode.commands.executeCommand("workbench.action.debug.continue");
-  }
+  constructor(private sessions: Sessions) {}
 
-  async stepOver(session?: vscode.DebugSession): Promise<void> {
-    const targetSession = session || vscode.debug.activeDebugSession;
-    if (!targetSession) {
-      throw new Error("No active debug session");
-    }
+  async continue(session?: vscode.DebugSession, options?: ExecutionOptions): Promise<void> {
+    const targetSession = this.resolveSession(session);
+    const threadId = await this.resolveThreadId(targetSession, options?.threadId);
 
-    await vscode.commands.executeCommand("workbench.action.debug.stepOver");
+    await targetSession.customRequest("continue", {
+      threadId,
+      ...(options?.singleThread !== undefined && { singleThread: options.singleThread }),
+    });
   }
 
-  async stepInto(session?: vscode.DebugSession): Promise<void> {
-    const targetSession = session || vscode.debug.activeDebugSession;
-    if (!targetSession) {
-      throw new Error("No active debug session");
-    }
+  async stepOver(session?: vscode.DebugSession, options?: StepOptions): Promise<void> {
+    await this.step("next", session, options);
+  }
 
-    await vscode.commands.executeCommand("workbench.action.debug.stepInto");
+  async stepInto(session?: vscode.DebugSession, options?: StepOptions): Promise<void> {
+    await this.step("stepIn", session, options);
   }
 
-  async stepOut(session?: vscode.DebugSession): Promise<void> {
-    const targetSession = session || vscode.debug.activeDebugSession;
-    if (!targetSession) {
-      throw new Error("No active debug session");
-    }
-    await vscode.commands.executeCommand("workbench.action.debug.stepOut");
+  async stepOut(session?: vscode.DebugSession, options?: StepOptions): Promise<void> {
+    await this.step("stepOut", session, options);
   }
 
-  async pause(session?: vscode.DebugSession): Promise<void> {
-    const targetSession = session || vscode.debug.activeDebugSession;
-    if (!targetSession) {
-      throw new Error("No active debug session");
-    }
-    await vscode.commands.executeCommand("workbench.action.debug.pause");
+  async pause(session?: vscode.DebugSession, threadId?: number): Promise<void> {
+    const targetSession = this.resolveSession(session);
+    const targetThreadId = threadId ?? (await this.getFirstThreadId(targetSession));
+
+    await targetSession.customRequest("pause", { threadId: targetThreadId });
   }
 
   async getThreads(session: vscode.DebugSession): Promise<ThreadInfo[]> {
@@ -67,4 +58,63 @@ export class Execution {
       return [];
     }
   }
+
+  private async step(
+    command: "next" | "stepIn" | "stepOut",
+    session?: vscode.DebugSession,
+    options?: StepOptions,
+  ): Promise<void> {
+    const targetSession = this.resolveSession(session);
+    const threadId = await this.resolveThreadId(targetSession, options?.threadId);
+
+    await targetSession.customRequest(command, {
+      threadId,
+      ...(options?.singleThread !== undefined && { singleThread: options.singleThread }),
+      ...(options?.granularity && { granularity: options.granularity }),
+    });
+  }
+
+  private resolveSession(session?: vscode.DebugSession): vscode.DebugSession {
+    const targetSession = session || vscode.debug.activeDebugSession;
+    if (!targetSession) {
+      throw new Error("No active debug session");
+    }
+    return targetSession;
+  }
+
+  /**
+   * Picks the thread to act on: the explicit thread, the thread selected in the
+   * Call Stack view for this session, the thread of the last stop, or the first thread.
+   */
+  private async resolveThreadId(
+    session: vscode.DebugSession,
+    threadId?: number,
+  ): Promise<number> {
+    if (threadId !== undefined) {
+      return threadId;
+    }
+
+    const activeItem = vscode.debug.activeStackItem;
+    const activeInfo = getFrameFromActiveStackItem();
+    if (activeInfo && activeItem?.session.id === session.id) {
+      logger.debug("Using threadId from active stack item", { threadId: activeInfo.threadId });
+      return activeInfo.threadId;
+    }
+
+    const lastStopThreadId = this.sessions.getSessionNode(session.id)?.lastStop?.threadId;
+    if (lastStopThreadId !== undefined) {
+      logger.debug("Using threadId from last stop", { threadId: lastStopThreadId });
+      return lastStopThreadId;
+    }
+
+    return this.getFirstThreadId(session);
+  }
+
+  private async getFirstThreadId(session: vscode.DebugSession): Promise<number> {
+    const threads = await this.getThreads(session);
+    if (threads.length === 0) {
+      throw new Error(`No threads found in session ${session.id}`);
+    }
+    return threads[0].id;
+  }
 }
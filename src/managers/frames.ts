@@ -0,0 +1,48 @@
+import * as vscode from "vscode";
+
+/** Frame ID of an active stack item that is a thread rather than a frame. */
+export const NO_FRAME_ID = -1;
+
+/**
+ * The frame (or thread) selected in VS Code's Call Stack view, or null when nothing is selected.
+ */
+export function getFrameFromActiveStackItem(): { frameId: number; threadId: number } | null {
+  const activeItem = vscode.debug.activeStackItem;
+
+  if (!activeItem) {
+    return null;
+  }
+
+  if (activeItem instanceof vscode.DebugStackFrame) {
+    return {
+      frameId: activeItem.frameId,
+      threadId: activeItem.threadId,
+    };
+  }
+
+  if (activeItem instanceof vscode.DebugThread) {
+    return {
+      frameId: NO_FRAME_ID,
+      threadId: activeItem.threadId,
+    };
+  }
+
+  return null;
+}
+
+export async function resolveFrameIdFromThreadId(
+  session: vscode.DebugSession,
+  threadId: number,
+): Promise<number> {
+  const stackResponse = await session.customRequest("stackTrace", {
+    threadId,
+    startFrame: 0,
+    levels: 1,
+  });
+
+  if (!stackResponse?.stackFrames || stackResponse.stackFrames.length === 0) {
+    throw new Error(`No stack frames found for thread ${threadId}. Is the thread paused?`);
+  }
+
+  return stackResponse.stackFrames[0].id;
+}
@@ -1,7 +1,7 @@
 import * as vscode from "vscode";
 import { getLogger } from "@/logger";
-import type { StackFrameInfo, VariableInfo, DebugLocation } from "@/types";
-import { getFrameFromActiveStackItem, NO_FRAME_ID, resolveFrameIdFromThreadId } from "@/mcp/utils";
+import type { StackFrameInfo, VariableInfo, DebugLocation, SourceLine } from "@/types";
+import { getFrameFromActiveStackItem, NO_FRAME_ID, resolveFrameIdFromThreadId } from "./frames";
 
 const logger = getLogger();
 
@@ -229,4 +229,50 @@ export class Inspection {
     }
   }
 
+  /**
+   * Returns name -> value for the local scope of a frame, used to diff variables between stops.
+   */
+  async getLocalValues(
+    frameId: number,
+    session: vscode.DebugSession,
+  ): Promise<Record<string, string>> {
+    const scopes = await this.getScopes(frameId, undefined, session);
+    const localScope =
+      scopes.find((scope) => scope.presentationHint === "locals") ?? scopes[0];
+
+    if (!localScope || localScope.variablesReference <= 0) {
+      return {};
+    }
+
+    const variables = await this.getVariables(localScope.variablesReference, session);
+    return Object.fromEntries(variables.map((variable) => [variable.name, variable.value]));
+  }
+
+  async getSourceContext(
+    filePath: string,
+    line: number,
+    radius: number = 3,
+  ): Promise<SourceLine[]> {
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      const first = Math.max(1, line - radius);
+      const last = Math.min(document.lineCount, line + radius);
+
+      const lines: SourceLine[] = [];
+      for (let current = first; current <= last; current++) {
+        lines.push({
+          line: current,
+          text: document.lineAt(current - 1).text,
+          current: current === line,
+        });
+      }
+      return lines;
+    } catch (error) {
+      logger.debug("Failed to read source context", {
+        file: filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
 }
@@ -0,0 +1,140 @@
+import { getLogger } from "@/logger";
+import { ConfigManager } from "@/config/config-manager";
+import type { OutputEntry, OutputQuery, OutputQueryResult } from "@/types";
+
+const logger = getLogger();
+
+// Buffers of terminated sessions kept around so their output can still be read
+const MAX_TERMINATED_BUFFERS = 10;
+
+class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+
+  constructor(private capacity: number) {}
+
+  /** Appends an item and returns the evicted one, if the buffer was full. */
+  push(item: T): T | undefined {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return undefined;
+    }
+
+    const evicted = this.items[this.start];
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+    return evicted;
+  }
+
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+}
+
+interface SessionOutput {
+  buffer: RingBuffer<OutputEntry>;
+  nextSeq: number;
+  firstSeq: number;
+}
+
+/**
+ * Keeps a bounded buffer of DAP `output` events per debug session.
+ */
+export class ProgramOutput {
+  private outputs: Map<string, SessionOutput> = new Map();
+  private terminated: string[] = [];
+  private config = new ConfigManager();
+
+  append(
+    sessionId: string,
+    category: string,
+    output: string,
+    source?: { file: string; line?: number },
+  ): void {
+    let sessionOutput = this.outputs.get(sessionId);
+    if (!sessionOutput) {
+      sessionOutput = {
+        buffer: new RingBuffer(Math.max(1, this.config.outputBufferSize)),
+        nextSeq: 1,
+        firstSeq: 1,
+      };
+      this.outputs.set(sessionId, sessionOutput);
+    }
+
+    const evicted = sessionOutput.buffer.push({
+      seq: sessionOutput.nextSeq++,
+      category,
+      output,
+      timestamp: Date.now(),
+      source,
+    });
+    if (evicted) {
+      sessionOutput.firstSeq = evicted.seq + 1;
+    }
+  }
+
+  hasOutput(sessionId: string): boolean {
+    return this.outputs.has(sessionId);
+  }
+
+  /**
+   * Returns buffered output newer than `since`. Telemetry is only included when asked for
+   * explicitly through `categories`. The tail limit keeps the newest entries on a first read
+   * and the oldest after `since`, so an incremental read never skips entries.
+   */
+  query(sessionId: string, query: OutputQuery = {}): OutputQueryResult {
+    const sessionOutput = this.outputs.get(sessionId);
+    if (!sessionOutput) {
+      return { entries: [], cursor: query.since ?? 0, dropped: 0, omitted: 0 };
+    }
+
+    const since = query.since ?? 0;
+    const matching = sessionOutput.buffer.toArray().filter((entry) => {
+      if (entry.seq <= since) {
+        return false;
+      }
+      if (query.categories
+        ? !query.categories.includes(entry.category)
+        : entry.category === "telemetry") {
+        return false;
+      }
+      return !query.pattern || query.pattern.test(entry.output);
+    });
+
+    let entries = matching;
+    if (query.tail !== undefined && matching.length > query.tail) {
+      entries = query.since === undefined ? matching.slice(-query.tail) : matching.slice(0, query.tail);
+    }
+
+    // The cursor only advances past what was returned, so a limited read can be continued
+    return {
+      entries,
+      cursor: query.since !== undefined && entries.length < matching.length && entries.length > 0
+        ? entries[entries.length - 1].seq
+        : sessionOutput.nextSeq - 1,
+      dropped: Math.max(0, sessionOutput.firstSeq - since - 1),
+      omitted: matching.length - entries.length,
+    };
+  }
+
+  /**
+   * Keeps the session's output readable after it ends, up to a fixed number of sessions.
+   */
+  markTerminated(sessionId: string): void {
+    if (!this.outputs.has(sessionId) || this.terminated.includes(sessionId)) {
+      return;
+    }
+
+    this.terminated.push(sessionId);
+    while (this.terminated.length > MAX_TERMINATED_BUFFERS) {
+      const oldest = this.terminated.shift()!;
+      this.outputs.delete(oldest);
+      logger.debug("Discarded output of terminated session", { sessionId: oldest });
+    }
+  }
+
+  clear(sessionId: string): void {
+    this.outputs.delete(sessionId);
+    this.terminated = this.terminated.filter((id) => id !== sessionId);
+  }
+}
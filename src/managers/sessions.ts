@@ -1,20 +1,67 @@
 import * as vscode from "vscode";
+import { randomUUID } from "crypto";
 import { getLogger } from "@/logger";
+import { ConfigManager } from "@/config/config-manager";
 import type {
+  AdapterCapabilities,
+  CompoundConfiguration,
+  CompoundGroup,
+  CompoundLaunchResult,
   DebugSessionInfo,
   DebugState,
+  OutputEntry,
+  SessionHistoryEntry,
   SessionNode,
+  SessionStopEvent,
   SessionTree,
   SessionTreeNode,
+  StopInfo,
+  StopReasonFilter,
+  TerminationCause,
+  WaitForStopResult,
 } from "@/types";
 
 const logger = getLogger();
 
+// Injected into every configuration we launch so the started session can be matched exactly
+const LAUNCH_ID_KEY = "__mcpDebugHubLaunchId";
+
+const UNKNOWN_LAUNCH_FAILURE =
+  "the debug adapter did not start (check the Debug Console and the debug extension's output)";
+
+function matchesStopReason(reason: string, filters: StopReasonFilter[]): boolean {
+  return filters.some((filter) => {
+    // Adapters report "function breakpoint", "data breakpoint" etc.
+    if (filter === "breakpoint") {
+      return reason.includes("breakpoint");
+    }
+    return reason === filter;
+  });
+}
+
 export class Sessions {
   private sessions: Map<string, SessionNode> = new Map();
+  private compounds: Map<string, CompoundGroup> = new Map();
+  private history: SessionHistoryEntry[] = [];
+  // Kept apart from the nodes: the initialize response can arrive before the session is tracked
+  private capabilities: Map<string, AdapterCapabilities> = new Map();
+  private pendingLaunches: Set<string> = new Set();
+  // launch ID -> names of compound members that have not been resolved yet
+  private pendingCompoundMembers: Map<string, string[]> = new Map();
+  private launchFailures: Map<string, string> = new Map();
+  private launchFailureEmitter = new vscode.EventEmitter<{ launchId: string; reason: string }>();
+  private config = new ConfigManager();
   private disposables: vscode.Disposable[] = [];
+  private stopEmitter = new vscode.EventEmitter<SessionStopEvent>();
+  private terminateEmitter = new vscode.EventEmitter<string>();
+
+  readonly onDidStop = this.stopEmitter.event;
+  readonly onDidTerminate = this.terminateEmitter.event;
 
-  constructor() {
+  /**
+   * @param getOutputTail Supplies the last output of a session when it is moved to the history
+   */
+  constructor(private getOutputTail: (sessionId: string) => OutputEntry[] = () => []) {
     this.disposables.push(
       vscode.debug.onDidStartDebugSession((session) => {
         this.addSession(session);
@@ -27,6 +74,13 @@ export class Sessions {
       }),
     );
 
+    // Compounds are launched by name, so their members get the launch ID while VS Code resolves them
+    this.disposables.push(
+      vscode.debug.registerDebugConfigurationProvider("*", {
+        resolveDebugConfiguration: (_folder, configuration) => this.tagCompoundMember(configuration),
+      }),
+    );
+
     if (vscode.debug.activeDebugSession) {
       this.addSession(vscode.debug.activeDebugSession);
     }
@@ -43,6 +97,9 @@ export class Sessions {
       children: [],
       state: "running",
       startTime: Date.now(),
+      threads: new Map(),
+      resumeCount: 0,
+      configuration: session.configuration,
     };
 
     this.sessions.set(session.id, node);
@@ -63,23 +120,86 @@ export class Sessions {
     });
   }
 
-  async launch(launchConfig: vscode.DebugConfiguration): Promise<string> {
-    const sessionPromise = this.waitForSession();
+  async launch(
+    launchConfig: vscode.DebugConfiguration,
+    workspaceFolder?: vscode.WorkspaceFolder,
+  ): Promise<string> {
+    const launchId = randomUUID();
+    const waiter = this.waitForSession(launchId);
+
+    try {
+      const success = await vscode.debug.startDebugging(
+        workspaceFolder ?? vscode.workspace.workspaceFolders?.[0],
+        { ...launchConfig, [LAUNCH_ID_KEY]: launchId },
+      );
+
+      if (!success) {
+        throw new Error(
+          `Failed to start debug session '${launchConfig.name}': ${this.describeLaunchFailure(launchId)}`,
+        );
+      }
+
+      const session = await waiter.promise;
+      this.updateSessionState(session.id, "running");
+      this.recordConfiguration(session);
 
-    const success = await vscode.debug.startDebugging(
-      vscode.workspace.workspaceFolders?.[0],
-      launchConfig,
-    );
+      logger.info("Debug session launched", { sessionId: session.id });
+      return session.id;
+    } finally {
+      waiter.dispose();
+    }
+  }
 
-    if (!success) {
-      throw new Error("Failed to start debug session");
+  async launchCompound(
+    compound: CompoundConfiguration,
+    workspaceFolder?: vscode.WorkspaceFolder,
+  ): Promise<CompoundLaunchResult> {
+    const expected = compound.configurations.map((c) => (typeof c === "string" ? c : c.name));
+    const launchId = randomUUID();
+    const collector = this.collectCompoundSessions(launchId, expected);
+
+    let sessions: vscode.DebugSession[];
+    try {
+      // Launching by name lets VS Code resolve per-folder members and run the compound's preLaunchTask
+      const success = await vscode.debug.startDebugging(workspaceFolder, compound.name);
+      if (!success) {
+        throw new Error(`Failed to start compound '${compound.name}'`);
+      }
+      sessions = await collector.promise;
+    } finally {
+      collector.dispose();
     }
 
-    const session = await sessionPromise;
-    this.updateSessionState(session.id, "running");
+    sessions.forEach((session) => this.recordConfiguration(session));
+    const sessionIds = sessions.map((session) => session.id);
+    const started = sessions.map((session) => session.configuration.name);
+    const missing = expected.filter((name) => {
+      const index = started.indexOf(name);
+      if (index === -1) {
+        return true;
+      }
+      started.splice(index, 1);
+      return false;
+    });
 
-    logger.info("Debug session launched", { sessionId: session.id });
-    return session.id;
+    this.compounds.set(compound.name, {
+      name: compound.name,
+      sessionIds,
+      stopAll: compound.stopAll ?? false,
+    });
+    for (const sessionId of sessionIds) {
+      const node = this.sessions.get(sessionId);
+      if (node) {
+        node.compound = compound.name;
+      }
+    }
+
+    logger.info("Compound launched", { compound: compound.name, sessionIds, missing });
+    return { compound: compound.name, sessionIds, missing };
+  }
+
+  getCompound(name: string): CompoundGroup | undefined {
+    return this.compounds.get(name);
   }
 
   async launchChild(
@@ -89,13 +209,15 @@ export class Sessions {
       consoleMode?: "separate" | "merged";
       lifecycleManagedByParent?: boolean;
     },
+    workspaceFolder?: vscode.WorkspaceFolder,
   ): Promise<string> {
     const parentNode = this.sessions.get(parentSessionId);
     if (!parentNode) {
       throw new Error(`Parent session ${parentSessionId} not found`);
     }
 
-    const sessionPromise = this.waitForSession();
+    const launchId = randomUUID();
+    const waiter = this.waitForSession(launchId);
 
     const debugOptions: vscode.DebugSessionOptions = {
       parentSession: parentNode.session,
@@ -106,22 +228,50 @@ export class Sessions {
       lifecycleManagedByParent: options?.lifecycleManagedByParent ?? false,
     };
 
-    const success = await vscode.debug.startDebugging(
-      vscode.workspace.workspaceFolders?.[0],
-      launchConfig,
-      debugOptions,
-    );
+    try {
+      const success = await vscode.debug.startDebugging(
+        workspaceFolder ?? parentNode.session.workspaceFolder ?? vscode.workspace.workspaceFolders?.[0],
+        { ...launchConfig, [LAUNCH_ID_KEY]: launchId },
+        debugOptions,
+      );
+
+      if (!success) {
+        throw new Error(
+          `Failed to start child debug session '${launchConfig.name}': ${this.describeLaunchFailure(launchId)}`,
+        );
+      }
 
-    if (!success) {
-      throw new Error("Failed to start child debug session");
+      const session = await waiter.promise;
+      this.recordConfiguration(session);
+      logger.info("Child debug session launched", {
+        sessionId: session.id,
+        parentId: parentSessionId,
+      });
+      return session.id;
+    } finally {
+      waiter.dispose();
     }
+  }
 
-    const session = await sessionPromise;
-    logger.info("Child debug session launched", {
-      sessionId: session.id,
-      parentId: parentSessionId,
-    });
-    return session.id;
+  /**
+   * Records why a session launched through MCP failed to start, as reported by the debug
+   * adapter tracker. Ignored for sessions that are not being launched right now.
+   */
+  reportLaunchFailure(session: vscode.DebugSession, reason: string): void {
+    const launchId = session.configuration?.[LAUNCH_ID_KEY];
+    if (typeof launchId !== "string" || !this.pendingLaunches.has(launchId)) {
+      return;
+    }
+
+    if (!this.launchFailures.has(launchId)) {
+      this.launchFailures.set(launchId, reason);
+      logger.warn("Debug session failed to start", { name: session.name, reason });
+      this.launchFailureEmitter.fire({ launchId, reason });
+    }
+  }
+
+  private describeLaunchFailure(launchId: string): string {
+    return this.launchFailures.get(launchId) ?? UNKNOWN_LAUNCH_FAILURE;
   }
 
   getActiveSession(): vscode.DebugSession | undefined {
@@ -133,7 +283,16 @@ export class Sessions {
   }
 
   getAllSessions(): DebugSessionInfo[] {
-    return Array.from(this.sessions.values()).map((node) => ({
+    return Array.from(this.sessions.values()).map((node) => this.toSessionInfo(node));
+  }
+
+  getSessionInfo(sessionId: string): DebugSessionInfo | undefined {
+    const node = this.sessions.get(sessionId);
+    return node ? this.toSessionInfo(node) : undefined;
+  }
+
+  private toSessionInfo(node: SessionNode): DebugSessionInfo {
+    return {
       id: node.session.id,
       name: node.session.name,
       type: node.session.type,
@@ -141,7 +300,11 @@ export class Sessions {
       state: node.state,
       parent: node.parent,
       children: [...node.children],
-    }));
+      threads: Array.from(node.threads, ([id, state]) => ({ id, state })),
+      ...(node.compound && { compound: node.compound }),
+      ...(node.lastStop && { lastStop: node.lastStop }),
+      ...(node.exitCode !== undefined && { exitCode: node.exitCode }),
+    };
   }
 
   getSessionTree(): SessionTree {
@@ -175,11 +338,29 @@ export class Sessions {
     };
   }
 
+  /**
+   * Merges capabilities from the adapter's initialize response or a `capabilities` event.
+   */
+  updateCapabilities(sessionId: string, capabilities: AdapterCapabilities): void {
+    this.capabilities.set(sessionId, {
+      ...this.capabilities.get(sessionId),
+      ...capabilities,
+    });
+  }
+
+  getCapabilities(sessionId: string): AdapterCapabilities | undefined {
+    return this.capabilities.get(sessionId);
+  }
+
   getSessionNode(sessionId: string): SessionNode | undefined {
     return this.sessions.get(sessionId);
   }
 
-  async terminate(sessionId?: string): Promise<void> {
+  /**
+   * Stops a session. If it belongs to a compound launched with stopAll, the whole compound
+   * is stopped, like VS Code does. Returns the IDs of the sessions that were stopped.
+   */
+  async terminate(sessionId?: string): Promise<string[]> {
     const session = sessionId
       ? this.getSession(sessionId)
       : this.getActiveSession();
@@ -188,8 +369,30 @@ export class Sessions {
       throw new Error("No active debug session");
     }
 
+    const compoundName = this.sessions.get(session.id)?.compound;
+    const compound = compoundName ? this.compounds.get(compoundName) : undefined;
+    if (compound?.stopAll) {
+      return this.terminateCompound(compound.name);
+    }
+
     await vscode.debug.stopDebugging(session);
     logger.info("Debug session terminated", { sessionId: session.id });
+    return [session.id];
+  }
+
+  async terminateCompound(name: string): Promise<string[]> {
+    const compound = this.compounds.get(name);
+    if (!compound) {
+      throw new Error(`Compound '${name}' has no running sessions launched through MCP`);
+    }
+
+    const sessions = compound.sessionIds
+      .map((id) => this.getSession(id))
+      .filter((session): session is vscode.DebugSession => session !== undefined);
+
+    await Promise.all(sessions.map((session) => vscode.debug.stopDebugging(session)));
+    logger.info("Compound terminated", { compound: name, sessionIds: sessions.map((s) => s.id) });
+    return sessions.map((session) => session.id);
   }
 
   updateSessionState(sessionId: string, state: DebugState): void {
@@ -200,12 +403,132 @@ export class Sessions {
     }
   }
 
+  /**
+   * Records the configuration the adapter got, i.e. after VS Code substituted variables and ran
+   * the configuration providers, without the internal launch ID.
+   */
+  private recordConfiguration(session: vscode.DebugSession): void {
+    const node = this.sessions.get(session.id);
+    if (node) {
+      const { [LAUNCH_ID_KEY]: _launchId, ...configuration } = session.configuration;
+      node.configuration = configuration as vscode.DebugConfiguration;
+    }
+  }
+
+  markStopped(sessionId: string, stop: StopInfo): void {
+    const node = this.sessions.get(sessionId);
+    if (!node) {
+      return;
+    }
+
+    if (stop.allThreadsStopped) {
+      for (const threadId of node.threads.keys()) {
+        node.threads.set(threadId, "paused");
+      }
+    }
+    if (stop.threadId !== undefined) {
+      node.threads.set(stop.threadId, "paused");
+    }
+
+    // Stops that continue on their own are not what the user sees as the last stop
+    if (!stop.autoContinue) {
+      node.lastStop = stop;
+    }
+    node.state = "paused";
+    logger.debug(`Session ${sessionId} paused`, {
+      reason: stop.reason,
+      threadId: stop.threadId,
+      hitBreakpointIds: stop.hitBreakpointIds,
+    });
+    this.stopEmitter.fire({ sessionId, stop });
+  }
+
+  markContinued(
+    sessionId: string,
+    threadId: number | undefined,
+    allThreadsContinued: boolean,
+  ): void {
+    const node = this.sessions.get(sessionId);
+    if (!node || node.state === "stopped") {
+      return;
+    }
+
+    node.resumeCount++;
+    if (allThreadsContinued || threadId === undefined) {
+      for (const id of node.threads.keys()) {
+        node.threads.set(id, "running");
+      }
+    } else {
+      node.threads.set(threadId, "running");
+    }
+
+    const anyPaused = Array.from(node.threads.values()).includes("paused");
+    node.state = anyPaused ? "paused" : "running";
+    logger.debug(`Session ${sessionId} state updated to ${node.state}`, { threadId });
+  }
+
+  updateThread(sessionId: string, threadId: number, reason: "started" | "exited"): void {
+    const node = this.sessions.get(sessionId);
+    if (!node) {
+      return;
+    }
+
+    if (reason === "exited") {
+      node.threads.delete(threadId);
+    } else if (!node.threads.has(threadId)) {
+      node.threads.set(threadId, "running");
+    }
+  }
+
+  markExited(sessionId: string, exitCode: number): void {
+    const node = this.sessions.get(sessionId);
+    if (node) {
+      node.exitCode = exitCode;
+      logger.debug(`Session ${sessionId} debuggee exited`, { exitCode });
+    }
+  }
+
+  markTerminated(sessionId: string): void {
+    const node = this.sessions.get(sessionId);
+    if (!node || node.state === "stopped") {
+      return;
+    }
+
+    node.state = "stopped";
+    for (const threadId of node.threads.keys()) {
+      node.threads.set(threadId, "stopped");
+    }
+    logger.debug(`Session ${sessionId} state updated to stopped`);
+    this.terminateEmitter.fire(sessionId);
+  }
+
+  /**
+   * Notes that the client asked the adapter to end the session, so the termination is not
+   * mistaken for a crash.
+   */
+  markTerminationRequested(sessionId: string): void {
+    const node = this.sessions.get(sessionId);
+    if (node && node.state !== "stopped" && node.exitCode === undefined) {
+      node.terminationRequested = true;
+    }
+  }
+
+  markAdapterFailure(sessionId: string, reason: string): void {
+    const node = this.sessions.get(sessionId);
+    if (node && !node.adapterError) {
+      node.adapterError = reason;
+    }
+  }
+
   removeSession(sessionId: string): void {
     const node = this.sessions.get(sessionId);
     if (!node) {
       return;
     }
 
+    this.markTerminated(sessionId);
+    this.recordHistory(node);
+
     if (node.parent) {
       const parent = this.sessions.get(node.parent);
       if (parent) {
@@ -213,27 +536,259 @@ export class Sessions {
       }
     }
 
+    if (node.compound) {
+      const compound = this.compounds.get(node.compound);
+      if (compound && compound.sessionIds.every((id) => id === sessionId || !this.sessions.has(id))) {
+        this.compounds.delete(node.compound);
+      }
+    }
+
     this.sessions.delete(sessionId);
+    this.capabilities.delete(sessionId);
     logger.debug(`Session ${sessionId} removed from tracking`);
   }
 
-  private waitForSession(): Promise<vscode.DebugSession> {
-    return new Promise((resolve, reject) => {
+  /**
+   * Terminated sessions, newest first.
+   */
+  getHistory(): SessionHistoryEntry[] {
+    return [...this.history];
+  }
+
+  getHistoryEntry(sessionId: string): SessionHistoryEntry | undefined {
+    return this.history.find((entry) => entry.id === sessionId);
+  }
+
+  private recordHistory(node: SessionNode): void {
+    const endTime = Date.now();
+    this.history.unshift({
+      id: node.session.id,
+      name: node.session.name,
+      type: node.session.type,
+      workspaceFolder: node.session.workspaceFolder?.name || "",
+      parent: node.parent,
+      ...(node.compound && { compound: node.compound }),
+      configuration: node.configuration,
+      startTime: node.startTime,
+      endTime,
+      duration: endTime - node.startTime,
+      cause: this.getTerminationCause(node),
+      ...(node.exitCode !== undefined && { exitCode: node.exitCode }),
+      ...(node.adapterError && { adapterError: node.adapterError }),
+      ...(node.lastStop && { lastStop: node.lastStop }),
+      outputTail: this.getOutputTail(node.session.id),
+    });
+    this.history.splice(Math.max(0, this.config.sessionHistorySize));
+  }
+
+  private getTerminationCause(node: SessionNode): TerminationCause {
+    // Checked first: adapters are often killed after a disconnect, which is not a failure
+    if (node.terminationRequested) {
+      return "requested";
+    }
+    if (node.adapterError) {
+      return "adapterFailure";
+    }
+    if (node.exitCode !== undefined) {
+      return node.exitCode === 0 ? "exited" : "crashed";
+    }
+    if (node.lastStop?.reason === "exception") {
+      return "crashed";
+    }
+    return "unknown";
+  }
+
+  waitForStop(
+    sessionId: string,
+    options: { timeoutMs: number; reasons?: StopReasonFilter[]; nextOnly?: boolean },
+  ): Promise<WaitForStopResult> {
+    try {
+      return this.createStopWaiter(sessionId, options).promise;
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * Like `waitForStop`, for callers that subscribe before resuming and may give up before the
+   * stop arrives, e.g. when the resume request fails. Throws right away for unknown sessions.
+   * Callers must dispose the waiter.
+   */
+  createStopWaiter(
+    sessionId: string,
+    options: { timeoutMs: number; reasons?: StopReasonFilter[]; nextOnly?: boolean },
+  ): { promise: Promise<WaitForStopResult>; dispose(): void } {
+    const settled = (result: WaitForStopResult) => ({ promise: Promise.resolve(result), dispose: () => {} });
+
+    const node = this.sessions.get(sessionId);
+    if (!node) {
+      const ended = this.getHistoryEntry(sessionId);
+      if (ended) {
+        return settled({ outcome: "terminated", sessionId, exitCode: ended.exitCode });
+      }
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    // Termination always ends the wait; the filter only narrows which stops count.
+    const reasons = options.reasons;
+    const acceptsStop = (stop: StopInfo) =>
+      !stop.autoContinue &&
+      (!reasons || reasons.length === 0 || matchesStopReason(stop.reason, reasons));
+
+    // nextOnly callers subscribe before resuming, so the current pause is stale for them
+    if (!options.nextOnly && node.state === "paused" && node.lastStop && acceptsStop(node.lastStop)) {
+      return settled({ outcome: "stopped", sessionId, stop: node.lastStop });
+    }
+    if (node.state === "stopped") {
+      return settled({ outcome: "terminated", sessionId, exitCode: node.exitCode });
+    }
+
+    let dispose = () => {};
+    const promise = new Promise<WaitForStopResult>((resolve) => {
+      dispose = () => {
+        clearTimeout(timeout);
+        stopListener.dispose();
+        terminateListener.dispose();
+      };
+      const finish = (result: WaitForStopResult) => {
+        dispose();
+        resolve(result);
+      };
+
       const timeout = setTimeout(() => {
-        reject(new Error("Timeout waiting for debug session"));
-      }, 10000);
+        finish({ outcome: "timeout", sessionId });
+      }, options.timeoutMs);
+
+      const stopListener = this.onDidStop((event) => {
+        if (event.sessionId === sessionId && acceptsStop(event.stop)) {
+          finish({ outcome: "stopped", sessionId, stop: event.stop });
+        }
+      });
+
+      const terminateListener = this.onDidTerminate((id) => {
+        if (id === sessionId) {
+          finish({
+            outcome: "terminated",
+            sessionId,
+            exitCode: this.sessions.get(sessionId)?.exitCode,
+          });
+        }
+      });
+    });
+    return { promise, dispose: () => dispose() };
+  }
 
-      const disposable = vscode.debug.onDidStartDebugSession((session) => {
+  /**
+   * Waits for the session whose configuration carries the given launch ID. Rejects on timeout
+   * or when the adapter reports a startup failure. Callers must dispose the waiter.
+   */
+  private waitForSession(launchId: string): {
+    promise: Promise<vscode.DebugSession>;
+    dispose(): void;
+  } {
+    this.pendingLaunches.add(launchId);
+    const disposables: vscode.Disposable[] = [];
+    let timeout: NodeJS.Timeout | undefined;
+
+    const promise = new Promise<vscode.DebugSession>((resolve, reject) => {
+      const timeoutMs = this.config.sessionStartTimeout;
+      timeout = setTimeout(() => {
+        reject(new Error(
+          `Timeout after ${timeoutMs}ms waiting for debug session: ${this.describeLaunchFailure(launchId)}`,
+        ));
+      }, timeoutMs);
+
+      disposables.push(
+        vscode.debug.onDidStartDebugSession((session) => {
+          if (session.configuration[LAUNCH_ID_KEY] === launchId) {
+            resolve(session);
+          }
+        }),
+        this.launchFailureEmitter.event((event) => {
+          if (event.launchId === launchId) {
+            reject(new Error(`Failed to start debug session: ${event.reason}`));
+          }
+        }),
+      );
+    });
+    // The caller may bail out before awaiting (e.g. startDebugging returned false)
+    promise.catch(() => undefined);
+
+    return {
+      promise,
+      dispose: () => {
         clearTimeout(timeout);
-        disposable.dispose();
-        resolve(session);
+        disposables.forEach((d) => d.dispose());
+        this.pendingLaunches.delete(launchId);
+        this.launchFailures.delete(launchId);
+      },
+    };
+  }
+
+  /**
+   * Collects the top-level sessions started for the given configuration names. Resolves with
+   * whatever started once all names are seen or the timeout elapses.
+   */
+  private collectCompoundSessions(launchId: string, names: string[]): {
+    promise: Promise<vscode.DebugSession[]>;
+    dispose(): void;
+  } {
+    this.pendingCompoundMembers.set(launchId, [...names]);
+    let timeout: NodeJS.Timeout | undefined;
+    let disposable: vscode.Disposable | undefined;
+
+    const promise = new Promise<vscode.DebugSession[]>((resolve) => {
+      const collected: vscode.DebugSession[] = [];
+      const finish = () => resolve(collected);
+
+      timeout = setTimeout(finish, this.config.sessionStartTimeout);
+      disposable = vscode.debug.onDidStartDebugSession((session) => {
+        // Child sessions (e.g. js-debug targets) belong to a member, not to the compound
+        if (session.parentSession || session.configuration[LAUNCH_ID_KEY] !== launchId) {
+          return;
+        }
+        collected.push(session);
+        if (collected.length === names.length) {
+          finish();
+        }
       });
     });
+
+    return {
+      promise,
+      dispose: () => {
+        clearTimeout(timeout);
+        disposable?.dispose();
+        this.pendingCompoundMembers.delete(launchId);
+      },
+    };
+  }
+
+  /**
+   * Adds the launch ID of a compound being launched to the configuration of one of its members.
+   */
+  private tagCompoundMember(configuration: vscode.DebugConfiguration): vscode.DebugConfiguration {
+    if (configuration[LAUNCH_ID_KEY] !== undefined) {
+      return configuration;
+    }
+
+    for (const [launchId, names] of this.pendingCompoundMembers) {
+      const index = names.indexOf(configuration.name);
+      if (index !== -1) {
+        names.splice(index, 1);
+        return { ...configuration, [LAUNCH_ID_KEY]: launchId };
+      }
+    }
+    return configuration;
   }
 
   dispose(): void {
     this.disposables.forEach((d) => d.dispose());
     this.disposables = [];
+    this.stopEmitter.dispose();
+    this.terminateEmitter.dispose();
+    this.launchFailureEmitter.dispose();
     this.sessions.clear();
+    this.compounds.clear();
   }
 }
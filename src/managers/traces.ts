@@ -0,0 +1,239 @@
+import * as vscode from "vscode";
+import { getLogger } from "@/logger";
+import type { TraceInfo, TracepointInfo, TraceRecord } from "@/types";
+
+const logger = getLogger();
+
+// Records kept per trace; older ones are dropped first
+const MAX_TRACE_RECORDS = 10000;
+
+// Stopped traces kept around so their records can still be read
+const MAX_STOPPED_TRACES = 10;
+
+// Tracepoints are logpoints whose message starts with this marker, followed by the values
+const MARKER_PREFIX = "<<mcp-trace:";
+const MARKER_PATTERN = /^<<mcp-trace:([\w-]+):(\d+)>>(.*?)\r?\n?$/s;
+const VALUE_SEPARATOR = "␟";
+
+export function isTracepoint(breakpoint: vscode.Breakpoint): boolean {
+  return breakpoint instanceof vscode.SourceBreakpoint &&
+    breakpoint.logMessage?.startsWith(MARKER_PREFIX) === true;
+}
+
+/** A DAP `OutputEvent` body. */
+interface DapOutputEventBody {
+  category?: string;
+  output: string;
+  group?: "start" | "startCollapsed" | "end";
+  variablesReference?: number;
+  source?: { name?: string; path?: string };
+  line?: number;
+  column?: number;
+  data?: unknown;
+}
+
+interface Trace {
+  id: string;
+  startedAt: number;
+  stoppedAt?: number;
+  points: TracepointInfo[];
+  breakpoints: vscode.SourceBreakpoint[];
+  records: TraceRecord[];
+  nextSeq: number;
+  dropped: number;
+}
+
+/**
+ * Tracing sessions built from logpoints. The adapter prints each hit with a marker, which the
+ * debug adapter tracker hands to `consume` instead of the program output buffer.
+ */
+export class Traces {
+  private traces: Map<string, Trace> = new Map();
+  private stopped: string[] = [];
+  private nextId = 1;
+
+  start(points: Omit<TracepointInfo, "index">[]): TraceInfo {
+    const lines = new Set<string>();
+    for (const point of points) {
+      if (point.expressions.some((expression) => /[{}]/.test(expression))) {
+        throw new Error(
+          `Tracepoint at ${point.file}:${point.line}: expressions cannot contain braces, since logpoints use them for interpolation`,
+        );
+      }
+
+      const fsPath = vscode.Uri.file(point.file).fsPath;
+      if (lines.has(`${fsPath}:${point.line}`)) {
+        throw new Error(`More than one tracepoint at ${point.file}:${point.line}. Trace several expressions in one point instead`);
+      }
+      lines.add(`${fsPath}:${point.line}`);
+
+      const existing = vscode.debug.breakpoints.find((bp) =>
+        bp instanceof vscode.SourceBreakpoint &&
+        bp.location.uri.fsPath === fsPath &&
+        bp.location.range.start.line === point.line - 1);
+      if (existing) {
+        throw new Error(`A breakpoint already exists at ${point.file}:${point.line}. Remove it or trace another line`);
+      }
+    }
+
+    const id = `trace-${this.nextId++}`;
+    const tracepoints = points.map((point, index) => ({ index, ...point }));
+    const breakpoints = tracepoints.map((point) => new vscode.SourceBreakpoint(
+      new vscode.Location(vscode.Uri.file(point.file), new vscode.Position(point.line - 1, 0)),
+      true,
+      point.condition,
+      undefined,
+      `${MARKER_PREFIX}${id}:${point.index}>>${point.expressions.map((expression) => `{${expression}}`).join(VALUE_SEPARATOR)}`,
+    ));
+
+    const trace: Trace = {
+      id,
+      startedAt: Date.now(),
+      points: tracepoints,
+      breakpoints,
+      records: [],
+      nextSeq: 1,
+      dropped: 0,
+    };
+    this.traces.set(id, trace);
+    vscode.debug.addBreakpoints(breakpoints);
+
+    logger.info("Trace started", { id, points: points.length });
+    return this.toInfo(trace);
+  }
+
+  /**
+   * Takes a DAP `output` event body. Returns true when it was tracepoint output, which then
+   * must not be treated as program output.
+   */
+  consume(sessionId: string, body: DapOutputEventBody): boolean {
+    const match = typeof body.output === "string" ? MARKER_PATTERN.exec(body.output) : null;
+    if (!match) {
+      return false;
+    }
+
+    const [, traceId, index, text] = match;
+    const trace = this.traces.get(traceId);
+    const point = trace?.points[Number(index)];
+    if (!trace || !point || trace.stoppedAt !== undefined) {
+      return true;
+    }
+
+    const parts = point.expressions.length > 0 ? text.split(VALUE_SEPARATOR) : [];
+    const parsed = parts.length === point.expressions.length;
+
+    trace.records.push({
+      seq: trace.nextSeq++,
+      timestamp: Date.now(),
+      point: point.index,
+      location: `${point.file}:${point.line}`,
+      sessionId,
+      values: parsed
+        ? Object.fromEntries(point.expressions.map((expression, i) => [expression, parts[i]]))
+        : {},
+      ...(!parsed && { raw: text }),
+    });
+    if (trace.records.length > MAX_TRACE_RECORDS) {
+      trace.records.shift();
+      trace.dropped++;
+    }
+    return true;
+  }
+
+  get(
+    traceId: string,
+    options: { since?: number; limit?: number; point?: number; sessionId?: string } = {},
+  ): TraceInfo & { records: TraceRecord[]; cursor: number; dropped: number; omitted: number } {
+    const trace = this.getTrace(traceId);
+
+    const matching = trace.records.filter((record) =>
+      (options.since === undefined || record.seq > options.since) &&
+      (options.point === undefined || record.point === options.point) &&
+      (options.sessionId === undefined || record.sessionId === options.sessionId));
+    const records = options.limit !== undefined ? matching.slice(0, options.limit) : matching;
+
+    // The cursor only advances past what was returned, so a limited read can be continued
+    return {
+      ...this.toInfo(trace),
+      records,
+      cursor: records.length < matching.length && records.length > 0
+        ? records[records.length - 1].seq
+        : trace.nextSeq - 1,
+      dropped: trace.dropped,
+      omitted: matching.length - records.length,
+    };
+  }
+
+  /**
+   * Removes the trace's tracepoints. Its records stay readable, up to a fixed number of traces.
+   */
+  stop(traceId: string): TraceInfo {
+    const trace = this.getTrace(traceId);
+    if (trace.stoppedAt !== undefined) {
+      throw new Error(`Trace ${traceId} is already stopped`);
+    }
+
+    // Marked first, so the removal event does not stop it a second time
+    this.markStopped(trace);
+    vscode.debug.removeBreakpoints(trace.breakpoints);
+
+    logger.info("Trace stopped", { id: traceId, records: trace.records.length });
+    return this.toInfo(trace);
+  }
+
+  /**
+   * Stops active traces whose tracepoints were all removed some other way, e.g. by
+   * `clear_all_breakpoints` or in VS Code.
+   */
+  handleRemoved(removed: readonly vscode.Breakpoint[]): void {
+    const removedIds = new Set(removed.map((bp) => bp.id));
+    for (const trace of this.traces.values()) {
+      if (trace.stoppedAt !== undefined || !trace.breakpoints.some((bp) => removedIds.has(bp.id))) {
+        continue;
+      }
+
+      const remaining = new Set(vscode.debug.breakpoints.map((bp) => bp.id));
+      if (!trace.breakpoints.some((bp) => remaining.has(bp.id))) {
+        this.markStopped(trace);
+        logger.info("Trace stopped because its tracepoints were removed", { id: trace.id });
+      }
+    }
+  }
+
+  list(): TraceInfo[] {
+    return Array.from(this.traces.values()).map((trace) => this.toInfo(trace));
+  }
+
+  private markStopped(trace: Trace): void {
+    trace.stoppedAt = Date.now();
+    this.stopped.push(trace.id);
+    while (this.stopped.length > MAX_STOPPED_TRACES) {
+      this.traces.delete(this.stopped.shift()!);
+    }
+  }
+
+  private getTrace(traceId: string): Trace {
+    const trace = this.traces.get(traceId);
+    if (!trace) {
+      throw new Error(`Trace ${traceId} not found`);
+    }
+    return trace;
+  }
+
+  private toInfo(trace: Trace): TraceInfo {
+    return {
+      id: trace.id,
+      active: trace.stoppedAt === undefined,
+      startedAt: trace.startedAt,
+      ...(trace.stoppedAt !== undefined && { stoppedAt: trace.stoppedAt }),
+      points: trace.points,
+      recordCount: trace.records.length + trace.dropped,
+    };
+  }
+
+  /** Removes the tracepoints of active traces, so they do not outlive the extension. */
+  dispose(): void {
+    const active = Array.from(this.traces.values()).filter((trace) => trace.stoppedAt === undefined);
+    vscode.debug.removeBreakpoints(active.flatMap((trace) => trace.breakpoints));
+  }
+}
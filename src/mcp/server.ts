@@ -1,38 +1,65 @@
 import * as http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import type * as vscode from 'vscode';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
 import type { Debug } from '@/managers/debug';
+import type { DebugEvent } from '@/types';
 import { getLogger } from '@/logger';
-import { Mutex } from '@/mutex';
 import { registerTools } from './tools';
 import { EXTENSION_NAME } from '@/constants';
 
 const logger = getLogger();
 const MCP_ENDPOINT = '/mcp';
+const MCP_SESSION_HEADER = 'mcp-session-id';
+const DEBUG_EVENT_LOGGER = 'debug-events';
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]'];
+
+// Clients that go away without a DELETE leave their session behind; it is closed after this long
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
 
 const HttpStatus = {
   NO_CONTENT: 204,
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
   INTERNAL_SERVER_ERROR: 500,
 } as const;
 
+interface McpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  // Requests still being answered, including open event streams
+  openRequests: number;
+}
+
 export class HttpMcpServer {
   private httpServer: http.Server;
-  private mcpServer: McpServer;
-  private mutex: Mutex = new Mutex();
+  // Shared by every request in stateless mode; stateful mode creates one per session
+  private mcpServer?: McpServer;
   private isRunning: boolean = false;
+  private mcpSessions: Map<string, McpSession> = new Map();
+  private debugEventSubscription?: vscode.Disposable;
+  private sessionSweepTimer?: NodeJS.Timeout;
+  private authToken?: string;
+  private allowedOrigins: Set<string> = new Set();
 
   constructor(
     private debugManager: Debug,
     private port: number,
     private host: string = 'localhost',
-    private version: string = '0.0.0'
+    private version: string = '0.0.0',
+    private stateful: boolean = true
   ) {
-    this.mcpServer = new McpServer({
-      name: EXTENSION_NAME,
-      version: this.version,
-    });
-
-    registerTools(this.mcpServer, this.debugManager, this.mutex);
+    if (!stateful) {
+      this.mcpServer = this.createMcpServer();
+    }
 
     this.httpServer = http.createServer(async (req, res) => {
       await this.handleRequest(req, res);
@@ -41,19 +68,60 @@ export class HttpMcpServer {
     this.httpServer.timeout = 0;
   }
 
+  private createMcpServer(): McpServer {
+    const server = new McpServer(
+      {
+        name: EXTENSION_NAME,
+        version: this.version,
+      },
+      {
+        capabilities: { logging: {} },
+      }
+    );
+
+    registerTools(server, this.debugManager, this.debugManager.mutex);
+    return server;
+  }
+
   private async handleRequest(
     req: http.IncomingMessage,
     res: http.ServerResponse
   ): Promise<void> {
-    res.setHeader('Access-Control-Allow-Origin', '*');
+    if (!this.isHostAllowed(req.headers.host)) {
+      this.reject(req, res, `Forbidden: Host header '${req.headers.host ?? ''}' does not match the server address`);
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin !== undefined && !this.isOriginAllowed(origin)) {
+      this.reject(req, res, `Forbidden: Origin '${origin}' is not allowed. Add it to mcpDebugHub.allowedOrigins to permit browser access`);
+      return;
+    }
+
+    if (origin !== undefined) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Mcp-Session-Id');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
 
     if (req.method === 'OPTIONS') {
       res.writeHead(HttpStatus.NO_CONTENT).end();
       return;
     }
 
+    if (!this.isAuthorized(req)) {
+      logger.warn('Rejected unauthenticated MCP request', {
+        remoteAddress: req.socket.remoteAddress,
+        method: req.method,
+        url: req.url,
+      });
+      res.setHeader('WWW-Authenticate', 'Bearer realm="mcp-debug-hub"');
+      this.sendJsonRpcError(res, HttpStatus.UNAUTHORIZED, -32001, 'Unauthorized: missing or invalid bearer token');
+      return;
+    }
+
     if (req.url?.startsWith(MCP_ENDPOINT)) {
       await this.handleMcpRequest(req, res);
     } else {
@@ -68,12 +136,17 @@ export class HttpMcpServer {
     try {
       const parsedBody = await this.parseBody(req);
 
+      if (this.stateful) {
+        await this.handleStatefulRequest(req, res, parsedBody);
+        return;
+      }
+
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: undefined,
         enableJsonResponse: true,
       });
 
-      await this.mcpServer.connect(transport);
+      await this.mcpServer!.connect(transport);
       await transport.handleRequest(req, res, parsedBody);
 
     } catch (error) {
@@ -93,6 +166,162 @@ export class HttpMcpServer {
     }
   }
 
+  private isHostAllowed(hostHeader: string | undefined): boolean {
+    // Bound to every interface: the Host header can legitimately be any address of this machine
+    if (WILDCARD_HOSTS.includes(this.host)) {
+      return true;
+    }
+    if (!hostHeader) {
+      return false;
+    }
+
+    const host = this.host.includes(':') && !this.host.startsWith('[') ? `[${this.host}]` : this.host;
+    const allowedNames = LOOPBACK_HOSTS.includes(host.toLowerCase()) ? LOOPBACK_HOSTS : [host.toLowerCase()];
+    return allowedNames.some((name) => hostHeader.toLowerCase() === `${name}:${this.port}`);
+  }
+
+  private isOriginAllowed(origin: string): boolean {
+    return this.allowedOrigins.has(normalizeOrigin(origin));
+  }
+
+  private reject(req: http.IncomingMessage, res: http.ServerResponse, message: string): void {
+    logger.warn('Rejected MCP request', {
+      reason: message,
+      remoteAddress: req.socket.remoteAddress,
+      host: req.headers.host,
+      origin: req.headers.origin,
+      method: req.method,
+      url: req.url,
+    });
+    this.sendJsonRpcError(res, HttpStatus.FORBIDDEN, -32002, message);
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    if (!this.authToken) {
+      return true;
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) {
+      return false;
+    }
+
+    const provided = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.authToken);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  }
+
+  private async handleStatefulRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    parsedBody: unknown
+  ): Promise<void> {
+    const sessionHeader = req.headers[MCP_SESSION_HEADER];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (sessionId) {
+      const session = this.mcpSessions.get(sessionId);
+      if (!session) {
+        // Per the MCP spec, 404 tells the client to start a new session
+        this.sendJsonRpcError(res, HttpStatus.NOT_FOUND, -32001, 'Session not found');
+        return;
+      }
+      this.trackRequest(session, res);
+      await session.transport.handleRequest(req, res, parsedBody);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(parsedBody)) {
+      this.sendJsonRpcError(res, HttpStatus.BAD_REQUEST, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.mcpSessions.set(id, { server, transport, lastActivity: Date.now(), openRequests: 0 });
+        logger.info('MCP session initialized', { sessionId: id });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && this.mcpSessions.delete(transport.sessionId)) {
+        logger.info('MCP session closed', { sessionId: transport.sessionId });
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, parsedBody);
+    } finally {
+      // A rejected initialize never registers its session, so nothing else would close the server
+      if (!transport.sessionId || !this.mcpSessions.has(transport.sessionId)) {
+        await server.close().catch(() => {});
+      }
+    }
+  }
+
+  private trackRequest(session: McpSession, res: http.ServerResponse): void {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  }
+
+  /**
+   * Closes sessions with no open request for longer than the idle timeout. Closing the server
+   * closes its transport, whose onclose removes the session.
+   */
+  private closeIdleSessions(): void {
+    const now = Date.now();
+    for (const [sessionId, session] of this.mcpSessions) {
+      if (session.openRequests > 0 || now - session.lastActivity < SESSION_IDLE_TIMEOUT_MS) {
+        continue;
+      }
+
+      this.mcpSessions.delete(sessionId);
+      logger.info('MCP session expired', { sessionId, idleMs: now - session.lastActivity });
+      session.server.close().catch((error) => {
+        logger.debug('Failed to close expired MCP session', {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+
+  private broadcastDebugEvent(event: DebugEvent): void {
+    const level: LoggingLevel = event.type === 'exception' ? 'warning' : 'info';
+
+    for (const [sessionId, session] of this.mcpSessions) {
+      session.server
+        .sendLoggingMessage({ level, logger: DEBUG_EVENT_LOGGER, data: event }, sessionId)
+        .catch((error) => {
+          logger.debug('Failed to send debug event notification', {
+            sessionId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }
+  }
+
+  private sendJsonRpcError(
+    res: http.ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    }));
+  }
+
   private parseBody(req: http.IncomingMessage): Promise<unknown> {
     return new Promise((resolve, reject) => {
       let body = '';
@@ -116,6 +345,13 @@ export class HttpMcpServer {
     return new Promise<void>((resolve, reject) => {
       this.httpServer.listen(this.port, this.host, () => {
         this.isRunning = true;
+        if (this.stateful) {
+          this.debugEventSubscription = this.debugManager.onDidDebugEvent((event) => {
+            this.broadcastDebugEvent(event);
+          });
+          this.sessionSweepTimer = setInterval(() => this.closeIdleSessions(), SESSION_SWEEP_INTERVAL_MS);
+          this.sessionSweepTimer.unref();
+        }
         logger.info(`MCP Server (Streamable HTTP) started at http://${this.host}:${this.port}${MCP_ENDPOINT}`);
         resolve();
       });
@@ -134,15 +370,44 @@ export class HttpMcpServer {
 
     logger.info('Stopping MCP server...');
 
+    this.debugEventSubscription?.dispose();
+    this.debugEventSubscription = undefined;
+    clearInterval(this.sessionSweepTimer);
+    this.sessionSweepTimer = undefined;
+
+    const sessions = Array.from(this.mcpSessions.values());
+    this.mcpSessions.clear();
+    await Promise.allSettled(sessions.map((session) => session.server.close()));
+
     return new Promise<void>((resolve) => {
       this.httpServer.close(() => {
         this.isRunning = false;
         logger.info('MCP Server stopped');
         resolve();
       });
+      this.httpServer.closeAllConnections();
     });
   }
 
+  /**
+   * Sets the bearer token required on every request. Pass undefined to disable authentication.
+   */
+  setAuthToken(token: string | undefined): void {
+    this.authToken = token;
+  }
+
+  /**
+   * Sets the browser origins allowed to call the server. Requests without an Origin header
+   * (non-browser clients) are always accepted.
+   */
+  setAllowedOrigins(origins: string[]): void {
+    this.allowedOrigins = new Set(origins.map(normalizeOrigin));
+  }
+
+  isAuthEnabled(): boolean {
+    return this.authToken !== undefined;
+  }
+
   getPort(): number {
     return this.port;
   }
@@ -156,3 +421,6 @@ export class HttpMcpServer {
   }
 }
 
+function normalizeOrigin(origin: string): string {
+  return origin.trim().replace(/\/+$/, '').toLowerCase();
+}
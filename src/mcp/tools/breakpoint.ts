@@ -4,16 +4,42 @@ import type { Debug } from '@/managers/debug';
 import type { Mutex } from '@/mutex';
 import { z } from 'zod';
 import { getLogger } from '@/logger';
+import type { BreakpointAction, BreakpointInfo, ResolvedBreakpointLocation } from '@/types';
+import { functionKey, sourceKey } from '@/managers/breakpoints';
 import { createErrorResult } from '../utils';
 
 const logger = getLogger();
 
+const breakpointActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('evaluate'),
+    expression: z.string().describe('Expression to evaluate in the top stack frame'),
+  }),
+  z.object({
+    type: z.literal('stackTrace'),
+    levels: z.number().int().positive().max(50).optional().describe('Number of frames to record (default: 10)'),
+  }),
+  z.object({
+    type: z.literal('setVariable'),
+    name: z.string().describe('Name of a variable visible in the top stack frame'),
+    value: z.string().describe('New value, as an expression in the program\'s language'),
+  }),
+]);
+
 const breakpointSchema = z.object({
   file: z.string().describe('Absolute path to the source file (e.g., "/workspace/src/main.py")'),
-  line: z.number().int().positive().describe('Line number where the breakpoint should be set (1-based, first line is 1)'),
+  line: z.number().int().positive().optional().describe('Line number where the breakpoint should be set (1-based, first line is 1). Exactly one of line, symbol or pattern must be provided'),
+  expectedText: z.string().optional().describe('Optional text the line is expected to contain. If the line does not contain it (e.g. the file changed), the single line that does is used instead'),
+  symbol: z.string().optional().describe('Symbol path to break in, resolved through the language server (e.g., "OrderService.submit", "process_order"). Functions resolve to their first body line'),
+  pattern: z.string().optional().describe('Regular expression matched against each line of the file; exactly one line must match (e.g., "total\\s*=\\s*sum\\(")'),
   condition: z.string().optional().describe('Optional condition expression - breakpoint only triggers when this evaluates to true (e.g., "x > 10")'),
   hitCondition: z.string().optional().describe('Optional hit count condition (e.g., ">5" means break after 5th hit, "==3" means break only on 3rd hit)'),
   logMessage: z.string().optional().describe('Optional log message to output instead of breaking (logpoint). Use {expression} for variable interpolation.'),
+  capture: z.array(z.string()).max(10).optional().describe('Optional expressions evaluated in the top stack frame on every hit and recorded in get_breakpoint_hits (e.g., ["i", "len(items)"])'),
+  temporary: z.boolean().optional().describe('If true, the breakpoint is removed automatically after its first hit (default: false)'),
+  actions: z.array(breakpointActionSchema).max(20).optional().describe('Optional actions run in order on every hit: evaluate an expression, record the stack, or set a variable. Results are read with get_breakpoint_action_results. Combine with condition to run them only when it holds'),
+  autoContinue: z.boolean().optional().describe('With actions: continue automatically after running them instead of staying paused (default: true). Such stops are ignored by wait_for_stop'),
+  sessionId: z.string().optional().describe('Optional session ID. If provided, the breakpoint only stops in this session (e.g. a child process from launch_child_debug); other sessions continue past it. Removed when the session ends'),
 });
 
 const setBreakpointSchema = breakpointSchema;
@@ -22,11 +48,137 @@ const setBatchBreakpointsSchema = z.object({
   breakpoints: z.array(breakpointSchema).min(1).max(50).describe('Array of breakpoints to set (minimum 1, maximum 50 per batch)'),
 });
 
+const setBreakpointsFromDiffSchema = z.object({
+  base: z.string().optional().describe('Git ref to compare the working tree with, e.g. "main" or "HEAD~3" (default: HEAD, i.e. uncommitted changes only)'),
+  paths: z.array(z.string()).optional().describe('Optional git pathspecs limiting the diff (e.g., ["src/orders"], ["*.py"])'),
+  repository: z.string().optional().describe('Absolute path inside the git repository (default: the first workspace folder)'),
+  tag: z.string().min(1).optional().describe('Tag shared by the new breakpoints, used to remove them with remove_tagged_breakpoints (default: "diff")'),
+  condition: z.string().optional().describe('Optional condition applied to every new breakpoint'),
+  maxBreakpoints: z.number().int().positive().max(200).optional().describe('Fail without setting anything if the diff needs more breakpoints than this (default: 50)'),
+});
+
+const DEFAULT_MAX_DIFF_BREAKPOINTS = 50;
+
+const removeTaggedBreakpointsSchema = z.object({
+  tag: z.string().min(1).describe('Tag given when the breakpoints were set (e.g., "diff")'),
+});
+
 const removeBreakpointSchema = z.object({
   file: z.string().describe('Absolute path to the source file containing the breakpoint to remove'),
   line: z.number().int().positive().describe('Line number of the breakpoint to remove (1-based)'),
 });
 
+const setFunctionBreakpointSchema = z.object({
+  functionName: z.string().min(1).describe('Name of the function to break on, as the debug adapter understands it (e.g., "process_order", "OrderService.submit", "main.handler")'),
+  condition: z.string().optional().describe('Optional condition expression - breakpoint only triggers when this evaluates to true (e.g., "x > 10")'),
+  hitCondition: z.string().optional().describe('Optional hit count condition (e.g., ">5" means break after 5th hit, "==3" means break only on 3rd hit)'),
+  capture: z.array(z.string()).max(10).optional().describe('Optional expressions evaluated in the top stack frame on every hit and recorded in get_breakpoint_hits'),
+  sessionId: z.string().optional().describe('Optional session ID. If provided, the breakpoint only stops in this session; other sessions continue past it. Removed when the session ends'),
+});
+
+const removeFunctionBreakpointSchema = z.object({
+  functionName: z.string().min(1).describe('Name of the function whose breakpoint should be removed'),
+});
+
+const sessionSchema = z.object({
+  sessionId: z.string().optional().describe('Optional session ID. If not provided, operates on the active debug session'),
+});
+
+const setExceptionBreakpointsSchema = z.object({
+  filters: z.array(z.object({
+    filterId: z.string().describe('Filter ID from list_exception_filters (e.g., "raised", "uncaught", "all")'),
+    condition: z.string().optional().describe('Optional condition; only exceptions for which it is true stop execution. Only for filters with supportsCondition'),
+  })).describe('Exception filters to enable. Filters not listed are disabled; an empty array disables exception breakpoints'),
+  sessionId: z.string().optional().describe('Optional session ID. If not provided, operates on the active debug session'),
+});
+
+const getBreakpointHitsSchema = z.object({
+  breakpointId: z.string().optional().describe('Only hits of this breakpoint (ID from list_breakpoints)'),
+  sessionId: z.string().optional().describe('Only hits in this debug session'),
+  threadId: z.number().int().optional().describe('Only hits on this thread'),
+  reason: z.string().optional().describe('Only hits with this stop reason (e.g., "breakpoint", "function breakpoint")'),
+  since: z.number().int().nonnegative().optional().describe('Cursor from a previous call. Only newer hits are returned'),
+  groupBy: z.enum(['breakpoint', 'session', 'thread', 'reason']).optional().describe('How to aggregate the matching hits (default: breakpoint)'),
+  limit: z.number().int().min(0).max(500).optional().describe('Maximum number of individual hits to return, newest last (default: 20). Use 0 for the aggregation only'),
+  reset: z.boolean().optional().describe('Clear the hit log and all hit counts after reading'),
+});
+
+const DEFAULT_HIT_LIMIT = 20;
+
+const getBreakpointActionResultsSchema = z.object({
+  breakpointId: z.string().optional().describe('Only results of this breakpoint (ID from list_breakpoints)'),
+  sessionId: z.string().optional().describe('Only results from this debug session'),
+  since: z.number().int().nonnegative().optional().describe('Cursor from a previous call. Only newer results are returned'),
+  limit: z.number().int().positive().max(1000).optional().describe('Maximum number of records to return, newest last (default: 50)'),
+});
+
+const DEFAULT_ACTION_RESULT_LIMIT = 50;
+
+const setDataBreakpointSchema = z.object({
+  name: z.string().optional().describe('Name of the variable to watch, as returned by get_variables. Requires variablesReference'),
+  variablesReference: z.number().int().optional().describe('variablesReference of the scope or object that contains the variable (from get_variables). Use with name'),
+  expression: z.string().optional().describe('Expression to watch instead of a variable (e.g., "order.total"). Evaluated in frameId. Not every adapter supports expressions'),
+  frameId: z.number().int().optional().describe('Stack frame in which expression is evaluated (from get_stack_frames)'),
+  accessType: z.enum(['read', 'write', 'readWrite']).optional().describe('Break when the value is read, written, or both (default: write)'),
+  condition: z.string().optional().describe('Optional condition expression - breakpoint only triggers when this evaluates to true'),
+  hitCondition: z.string().optional().describe('Optional hit count condition (e.g., ">5")'),
+  sessionId: z.string().optional().describe('Optional session ID. If not provided, operates on the active debug session'),
+});
+
+const removeDataBreakpointSchema = z.object({
+  dataId: z.string().describe('dataId of the data breakpoint, from set_data_breakpoint or list_data_breakpoints'),
+  sessionId: z.string().optional().describe('Optional session ID. If not provided, operates on the active debug session'),
+});
+
+function describeLocation(location: ResolvedBreakpointLocation): string {
+  if (location.resolvedFrom === 'line') {
+    return '';
+  }
+  return ` (resolved from ${location.resolvedFrom}: ${location.text.trim()})`;
+}
+
+/**
+ * Summarizes how each running session bound a breakpoint, including adapter-adjusted lines.
+ */
+function describeVerification(bp: BreakpointInfo): string {
+  if (bp.sessions.length === 0) {
+    return ' (pending: no debug session has bound it yet)';
+  }
+
+  const details = bp.sessions.map((status) => {
+    const moved = bp.kind === 'source' && status.line !== undefined && status.line !== bp.line
+      ? ` at line ${status.line}`
+      : '';
+    const state = status.verified ? `verified${moved}` : 'not verified';
+    return `session ${status.sessionId}: ${state}${status.message ? ` (${status.message})` : ''}`;
+  });
+  return `\n${details.join('\n')}`;
+}
+
+/**
+ * Checks that the session a breakpoint is scoped to is running, since the breakpoint would
+ * otherwise never stop and never be cleaned up.
+ */
+function checkScope(debugManager: Debug, sessionId: string | undefined): void {
+  if (sessionId && !debugManager.sessions.getSession(sessionId)) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+}
+
+/**
+ * Attaches capture expressions and actions to the breakpoint location, replacing those of an
+ * earlier breakpoint there. Called before the breakpoint is set, so a hit while it is being
+ * bound already runs them.
+ */
+function applyHitOptions(
+  debugManager: Debug,
+  key: string,
+  options: { capture?: string[]; actions?: BreakpointAction[]; autoContinue?: boolean }
+): void {
+  debugManager.breakpointHits.setCaptures(key, options.capture ?? []);
+  debugManager.breakpointActions.define(key, options.actions ?? [], options.autoContinue ?? true);
+}
+
 export function registerBreakpointTools(
   mcpServer: McpServer,
   debugManager: Debug,
@@ -34,25 +186,35 @@ export function registerBreakpointTools(
 ): void {
   mcpServer.tool(
     'set_breakpoint',
-    'Sets a breakpoint at a specific line in a source file with optional conditions, hit counts, or log messages',
+    'Sets a breakpoint in a source file with optional conditions, hit counts, or log messages, or a temporary breakpoint removed after its first hit. Actions can run on every hit and continue automatically. The location is a line (optionally checked against its expected text), a symbol path such as "OrderService.submit", or a regular expression matching exactly one line. Returns the resolved line',
     setBreakpointSchema.shape,
     async (args): Promise<CallToolResult> => {
       return mutex.runExclusive(async () => {
         try {
-          logger.debug(`[set_breakpoint] ${args.file}:${args.line}`);
+          logger.debug(`[set_breakpoint] ${args.file}`, {
+            line: args.line,
+            symbol: args.symbol,
+            pattern: args.pattern,
+          });
+          checkScope(debugManager, args.sessionId);
+          const location = await debugManager.breakpoints.resolveLocation(args.file, args);
+          applyHitOptions(debugManager, sourceKey(args.file, location.line), args);
           const bp = await debugManager.breakpoints.set(
             args.file,
-            args.line,
+            location.line,
             {
               condition: args.condition,
               hitCondition: args.hitCondition,
               logMessage: args.logMessage,
+              temporary: args.temporary,
+              sessionId: args.sessionId,
             }
           );
+          const scope = bp.sessionId ? ` (only in session ${bp.sessionId})` : '';
           return {
             content: [{
               type: 'text',
-              text: `Breakpoint set at ${args.file}:${bp.line}${bp.verified ? ' (verified)' : ' (pending)'}`,
+              text: `${bp.temporary ? 'Temporary breakpoint' : 'Breakpoint'} set at ${args.file}:${bp.line}${scope}${describeLocation(location)}${describeVerification(bp)}`,
             }],
           };
         } catch (error) {
@@ -74,21 +236,29 @@ export function registerBreakpointTools(
           
           const results = await Promise.allSettled(
             args.breakpoints.map(async (bp) => {
+              checkScope(debugManager, bp.sessionId);
+              const location = await debugManager.breakpoints.resolveLocation(bp.file, bp);
+              applyHitOptions(debugManager, sourceKey(bp.file, location.line), bp);
               const breakpoint = await debugManager.breakpoints.set(
                 bp.file,
-                bp.line,
+                location.line,
                 {
                   condition: bp.condition,
                   hitCondition: bp.hitCondition,
                   logMessage: bp.logMessage,
+                  temporary: bp.temporary,
+                  sessionId: bp.sessionId,
                 }
               );
               return {
                 file: bp.file,
-                line: bp.line,
+                line: location.line,
+                ...(location.resolvedFrom !== 'line' && { resolvedFrom: location.resolvedFrom }),
                 status: 'success' as const,
                 id: breakpoint.id,
+                ...(breakpoint.sessionId && { sessionId: breakpoint.sessionId }),
                 verified: breakpoint.verified,
+                sessions: breakpoint.sessions,
               };
             })
           );
@@ -104,6 +274,8 @@ export function registerBreakpointTools(
               return {
                 file: bp.file,
                 line: bp.line,
+                ...(bp.symbol !== undefined && { symbol: bp.symbol }),
+                ...(bp.pattern !== undefined && { pattern: bp.pattern }),
                 status: 'failed' as const,
                 error: result.reason instanceof Error ? result.reason.message : String(result.reason),
               };
@@ -133,6 +305,62 @@ export function registerBreakpointTools(
     }
   );
 
+  mcpServer.tool(
+    'set_breakpoints_from_diff',
+    'Sets a breakpoint on every changed hunk between the working tree and a git ref, on the first executable line of each hunk. Hunks in files no installed debugger supports, and lines that already have a breakpoint, are skipped. The breakpoints share a tag for remove_tagged_breakpoints',
+    setBreakpointsFromDiffSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug('[set_breakpoints_from_diff] Reading diff', { base: args.base, paths: args.paths });
+          const result = await debugManager.diffBreakpoints.set({
+            base: args.base,
+            paths: args.paths,
+            repository: args.repository,
+            tag: args.tag,
+            condition: args.condition,
+            maxBreakpoints: args.maxBreakpoints ?? DEFAULT_MAX_DIFF_BREAKPOINTS,
+          });
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[set_breakpoints_from_diff] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'remove_tagged_breakpoints',
+    'Removes all breakpoints that were set with the given tag, such as those placed by set_breakpoints_from_diff',
+    removeTaggedBreakpointsSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug(`[remove_tagged_breakpoints] ${args.tag}`);
+          const removed = debugManager.breakpoints.removeTagged(args.tag);
+          return {
+            content: [{
+              type: 'text',
+              text: removed > 0
+                ? `Removed ${removed} breakpoints tagged '${args.tag}'`
+                : `No breakpoints tagged '${args.tag}'`,
+            }],
+          };
+        } catch (error) {
+          logger.debug('[remove_tagged_breakpoints] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
   mcpServer.tool(
     'remove_breakpoint',
     'Removes a breakpoint from a specific line in a source file',
@@ -156,9 +384,270 @@ export function registerBreakpointTools(
     }
   );
 
+  mcpServer.tool(
+    'set_function_breakpoint',
+    'Sets a breakpoint that triggers when a function with the given name is entered, without knowing its file and line. Supports conditions and hit counts. Requires a debug adapter that supports function breakpoints',
+    setFunctionBreakpointSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug(`[set_function_breakpoint] ${args.functionName}`);
+          checkScope(debugManager, args.sessionId);
+          applyHitOptions(debugManager, functionKey(args.functionName), { capture: args.capture });
+          const bp = await debugManager.breakpoints.setFunction(args.functionName, {
+            condition: args.condition,
+            hitCondition: args.hitCondition,
+            sessionId: args.sessionId,
+          });
+          const scope = bp.sessionId ? ` (only in session ${bp.sessionId})` : '';
+          return {
+            content: [{
+              type: 'text',
+              text: `Function breakpoint set on ${bp.functionName}${scope}${describeVerification(bp)}`,
+            }],
+          };
+        } catch (error) {
+          logger.debug('[set_function_breakpoint] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'remove_function_breakpoint',
+    'Removes the breakpoint set on a function by name',
+    removeFunctionBreakpointSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug(`[remove_function_breakpoint] ${args.functionName}`);
+          await debugManager.breakpoints.removeFunction(args.functionName);
+          return {
+            content: [{
+              type: 'text',
+              text: `Function breakpoint removed from ${args.functionName}`,
+            }],
+          };
+        } catch (error) {
+          logger.debug('[remove_function_breakpoint] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'list_exception_filters',
+    'Lists the exception breakpoint filters the session\'s debug adapter supports (e.g., caught/uncaught exceptions), whether they accept conditions, and the filters currently applied through set_exception_breakpoints',
+    sessionSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          const session = args.sessionId
+            ? debugManager.sessions.getSession(args.sessionId)
+            : debugManager.sessions.getActiveSession();
+
+          if (args.sessionId && !session) {
+            throw new Error(`Session ${args.sessionId} not found`);
+          }
+
+          if (!session) {
+            throw new Error('No active debug session');
+          }
+
+          logger.debug('[list_exception_filters] Listing filters', { sessionId: session.id });
+          const filters = debugManager.exceptions.getFilters(session);
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ sessionId: session.id, ...filters }, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[list_exception_filters] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'set_exception_breakpoints',
+    'Makes a debug session break when exceptions are thrown, using the filters from list_exception_filters, optionally with a condition per filter. Replaces the session\'s current exception filters. The choice is re-applied when a session with the same configuration restarts',
+    setExceptionBreakpointsSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          const session = args.sessionId
+            ? debugManager.sessions.getSession(args.sessionId)
+            : debugManager.sessions.getActiveSession();
+
+          if (args.sessionId && !session) {
+            throw new Error(`Session ${args.sessionId} not found`);
+          }
+
+          if (!session) {
+            throw new Error('No active debug session');
+          }
+
+          logger.debug('[set_exception_breakpoints] Applying filters', {
+            sessionId: session.id,
+            filters: args.filters.map((f) => f.filterId),
+          });
+          const breakpoints = await debugManager.exceptions.apply(session, args.filters);
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                sessionId: session.id,
+                filters: args.filters,
+                ...(breakpoints.length > 0 && { breakpoints }),
+              }, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[set_exception_breakpoints] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'set_data_breakpoint',
+    'Sets a data breakpoint (watchpoint) that pauses execution when a variable or expression is written or read. Identify the variable by its container\'s variablesReference and name from get_variables, or pass an expression. The session must be paused and its adapter must support data breakpoints',
+    setDataBreakpointSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          const session = args.sessionId
+            ? debugManager.sessions.getSession(args.sessionId)
+            : debugManager.sessions.getActiveSession();
+
+          if (args.sessionId && !session) {
+            throw new Error(`Session ${args.sessionId} not found`);
+          }
+
+          if (!session) {
+            throw new Error('No active debug session');
+          }
+
+          if ((args.name === undefined) === (args.expression === undefined)) {
+            throw new Error('Provide either name with variablesReference, or expression');
+          }
+          if (args.name !== undefined && args.variablesReference === undefined) {
+            throw new Error('variablesReference is required when watching a variable by name');
+          }
+
+          logger.debug('[set_data_breakpoint] Setting data breakpoint', {
+            sessionId: session.id,
+            name: args.name,
+            expression: args.expression,
+          });
+          const breakpoint = await debugManager.dataBreakpoints.set(
+            session,
+            args.expression !== undefined
+              ? { name: args.expression, frameId: args.frameId }
+              : { name: args.name!, variablesReference: args.variablesReference },
+            {
+              accessType: args.accessType ?? 'write',
+              condition: args.condition,
+              hitCondition: args.hitCondition,
+            }
+          );
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ sessionId: session.id, ...breakpoint }, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[set_data_breakpoint] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'list_data_breakpoints',
+    'Lists the data breakpoints (watchpoints) of a debug session, with their access type and verification status. origin tells whether a data breakpoint was set through set_data_breakpoint ("mcp") or in VS Code ("vscode")',
+    sessionSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          const session = args.sessionId
+            ? debugManager.sessions.getSession(args.sessionId)
+            : debugManager.sessions.getActiveSession();
+
+          if (args.sessionId && !session) {
+            throw new Error(`Session ${args.sessionId} not found`);
+          }
+
+          if (!session) {
+            throw new Error('No active debug session');
+          }
+
+          logger.debug('[list_data_breakpoints] Listing data breakpoints', { sessionId: session.id });
+          const breakpoints = debugManager.dataBreakpoints.getAll(session.id);
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ sessionId: session.id, breakpoints, total: breakpoints.length }, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[list_data_breakpoints] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'remove_data_breakpoint',
+    'Removes a data breakpoint (watchpoint) set through set_data_breakpoint. Data breakpoints set in VS Code are removed in its Breakpoints view',
+    removeDataBreakpointSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          const session = args.sessionId
+            ? debugManager.sessions.getSession(args.sessionId)
+            : debugManager.sessions.getActiveSession();
+
+          if (args.sessionId && !session) {
+            throw new Error(`Session ${args.sessionId} not found`);
+          }
+
+          if (!session) {
+            throw new Error('No active debug session');
+          }
+
+          logger.debug('[remove_data_breakpoint] Removing data breakpoint', { sessionId: session.id, dataId: args.dataId });
+          await debugManager.dataBreakpoints.remove(session, args.dataId);
+
+          return {
+            content: [{
+              type: 'text',
+              text: `Data breakpoint ${args.dataId} removed (session: ${session.id})`,
+            }],
+          };
+        } catch (error) {
+          logger.debug('[remove_data_breakpoint] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
   mcpServer.tool(
     'list_breakpoints',
-    'Lists all breakpoints currently set in the workspace including their locations, conditions, and verification status',
+    'Lists all breakpoints currently set in the workspace including their locations, conditions, verification status and hit counts. Each entry has a kind: "source" (file and line) or "function" (functionName). Breakpoints scoped to one session carry its sessionId',
     {},
     async (): Promise<CallToolResult> => {
       return mutex.runExclusive(async () => {
@@ -179,6 +668,85 @@ export function registerBreakpointTools(
     }
   );
 
+  mcpServer.tool(
+    'get_breakpoint_hits',
+    'Returns how often breakpoints were hit, aggregated by breakpoint, session, thread or stop reason, plus the most recent individual hits with their timestamps and captured expression values. Filter by breakpoint, session, thread or reason; pass the returned cursor as since to read only new hits',
+    getBreakpointHitsSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      // Only reads the hit log, so it does not need the mutex
+      try {
+        logger.debug('[get_breakpoint_hits] Reading hits', {
+          breakpointId: args.breakpointId,
+          sessionId: args.sessionId,
+          since: args.since,
+        });
+
+        const hits = debugManager.breakpointHits.query({
+          breakpointId: args.breakpointId,
+          sessionId: args.sessionId,
+          threadId: args.threadId,
+          reason: args.reason,
+          since: args.since,
+        });
+        const limit = args.limit ?? DEFAULT_HIT_LIMIT;
+        const result = {
+          total: hits.length,
+          groupBy: args.groupBy ?? 'breakpoint',
+          groups: debugManager.breakpointHits.aggregate(hits, args.groupBy ?? 'breakpoint'),
+          hits: limit > 0 ? hits.slice(-limit) : [],
+          cursor: debugManager.breakpointHits.getCursor(),
+        };
+
+        if (args.reset) {
+          debugManager.breakpointHits.clear();
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          }],
+        };
+      } catch (error) {
+        logger.debug('[get_breakpoint_hits] Error:', { error: error instanceof Error ? error.message : String(error) });
+        return createErrorResult(error);
+      }
+    }
+  );
+
+  mcpServer.tool(
+    'get_breakpoint_action_results',
+    'Returns what the actions of breakpoints set with actions recorded on each hit: evaluated values, stack snapshots and variable changes, with the session, thread and whether execution continued automatically. Pass the returned cursor as since to read only new results',
+    getBreakpointActionResultsSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      // Only reads recorded results, so it does not need the mutex
+      try {
+        logger.debug('[get_breakpoint_action_results] Reading results', {
+          breakpointId: args.breakpointId,
+          sessionId: args.sessionId,
+          since: args.since,
+        });
+
+        const result = debugManager.breakpointActions.query({
+          breakpointId: args.breakpointId,
+          sessionId: args.sessionId,
+          since: args.since,
+          limit: args.limit ?? DEFAULT_ACTION_RESULT_LIMIT,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          }],
+        };
+      } catch (error) {
+        logger.debug('[get_breakpoint_action_results] Error:', { error: error instanceof Error ? error.message : String(error) });
+        return createErrorResult(error);
+      }
+    }
+  );
+
   mcpServer.tool(
     'clear_all_breakpoints',
     'Clears all breakpoints from all files in the workspace',
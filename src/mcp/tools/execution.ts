@@ -1,10 +1,14 @@
+import type * as vscode from 'vscode';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type { Debug } from '@/managers/debug';
+import type { SessionBreakpoint } from '@/managers/breakpoints';
 import type { Mutex } from '@/mutex';
+import type { StackFrameInfo, StopReport, WaitForStopResult } from '@/types';
+import * as path from 'path';
 import { z } from 'zod';
 import { getLogger } from '@/logger';
-import { createErrorResult } from '../utils';
+import { createErrorResult, diffVariables } from '../utils';
 
 const logger = getLogger();
 
@@ -12,6 +16,172 @@ const sessionSchema = z.object({
   sessionId: z.string().optional().describe('Optional session ID. If not provided, operates on the active debug session'),
 });
 
+const pauseSchema = sessionSchema.extend({
+  threadId: z.number().int().optional().describe('Optional thread ID to pause. If not provided, pauses the first thread (most adapters then pause all threads). Use list_threads to see available threads'),
+});
+
+const continueSchema = sessionSchema.extend({
+  threadId: z.number().int().optional().describe('Optional thread ID. If not provided, uses the thread selected in VS Code\'s Call Stack view for this session, then the thread of the last stop, then the first thread'),
+  singleThread: z.boolean().optional().describe('If true, only the given thread is resumed and all other threads stay paused (requires adapter support)'),
+  waitForStop: z.boolean().optional().describe('If true, waits for the next stop and returns the new file, line, function, surrounding source lines and the local variables that changed since the previous stop (default: false)'),
+  timeoutMs: z.number().int().positive().max(600000).optional().describe('Maximum time to wait for the next stop when waitForStop is true, in milliseconds (default: 30000)'),
+});
+
+const stepSchema = continueSchema.extend({
+  granularity: z.enum(['statement', 'line', 'instruction']).optional().describe('Stepping granularity (default: statement). "instruction" steps a single machine instruction (requires adapter support)'),
+});
+
+const waitForStopSchema = z.object({
+  sessionId: z.string().describe('ID of the debug session to wait on (use list_debug_sessions to see available sessions)'),
+  timeoutMs: z.number().int().positive().max(600000).optional().describe('Maximum time to wait in milliseconds (default: 30000, maximum: 600000)'),
+  reasons: z.array(z.enum(['breakpoint', 'exception', 'step', 'entry', 'terminated'])).optional().describe('Optional stop reasons to wait for. Stops with other reasons are ignored. Termination always ends the wait'),
+});
+
+const runToLineSchema = sessionSchema.extend({
+  file: z.string().describe('Absolute path to the source file to run to (e.g., "/workspace/src/main.py")'),
+  line: z.number().int().positive().optional().describe('Line to run to (1-based). Exactly one of line, symbol or pattern must be provided'),
+  expectedText: z.string().optional().describe('Optional text the line is expected to contain. If the line does not contain it, the single line that does is used instead'),
+  symbol: z.string().optional().describe('Symbol path to run to, resolved through the language server (e.g., "OrderService.submit"). Functions resolve to their first body line'),
+  pattern: z.string().optional().describe('Regular expression matched against each line of the file; exactly one line must match'),
+  threadId: z.number().int().optional().describe('Optional thread ID to resume. If not provided, uses the same thread as continue_execution'),
+  timeoutMs: z.number().int().positive().max(600000).optional().describe('Maximum time to wait for the stop in milliseconds (default: 30000)'),
+});
+
+const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+
+interface LocalsSnapshot {
+  /** Function and file of every frame on the stack, to tell whether a later stop is in the same frame. */
+  stack: string;
+  values: Record<string, string>;
+}
+
+/**
+ * Captures locals, runs the resume action, then waits for the next stop and reports where it landed.
+ * The mutex is released while waiting so other tools keep working.
+ */
+async function resumeAndReport(
+  debugManager: Debug,
+  mutex: Mutex,
+  args: { sessionId?: string; threadId?: number; timeoutMs?: number },
+  action: (session: vscode.DebugSession) => Promise<void>
+): Promise<StopReport> {
+  let waiter: { promise: Promise<WaitForStopResult>; dispose(): void } | undefined;
+  try {
+    const { session, before } = await mutex.runExclusive(async () => {
+      const session = args.sessionId
+        ? debugManager.sessions.getSession(args.sessionId)
+        : debugManager.sessions.getActiveSession();
+
+      if (args.sessionId && !session) {
+        throw new Error(`Session ${args.sessionId} not found`);
+      }
+      if (!session) {
+        throw new Error('No active debug session');
+      }
+
+      const threadId = args.threadId ?? debugManager.sessions.getSessionNode(session.id)?.lastStop?.threadId;
+      const before = threadId !== undefined
+        ? await captureLocals(debugManager, session, threadId)
+        : undefined;
+
+      // Subscribe before resuming so a fast stop is not missed
+      waiter = debugManager.sessions.createStopWaiter(session.id, {
+        timeoutMs: args.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS,
+        nextOnly: true,
+      });
+      await action(session);
+      return { session, before };
+    });
+
+    const result = await waiter!.promise;
+    const report: StopReport = {
+      outcome: result.outcome,
+      sessionId: result.sessionId,
+      ...(result.exitCode !== undefined && { exitCode: result.exitCode }),
+    };
+
+    const stop = result.stop;
+    if (result.outcome !== 'stopped' || !stop || stop.threadId === undefined) {
+      return report;
+    }
+
+    report.reason = stop.reason;
+    report.threadId = stop.threadId;
+
+    await mutex.runExclusive(async () => {
+      const frames = await debugManager.inspection.getStackTrace(stop.threadId!, session);
+      const topFrame = frames[0];
+      if (!topFrame) {
+        return;
+      }
+
+      report.file = topFrame.file;
+      report.line = topFrame.line;
+      report.column = topFrame.column;
+      report.function = topFrame.name;
+      if (topFrame.file) {
+        report.source = await debugManager.inspection.getSourceContext(topFrame.file, topFrame.line);
+      }
+
+      // Locals of another frame (after stepping into or out of a call) are not comparable
+      if (before?.stack !== describeStack(frames)) {
+        report.newFrame = true;
+        return;
+      }
+      const after = await debugManager.inspection.getLocalValues(topFrame.id, session);
+      report.changedVariables = diffVariables(before.values, after);
+    });
+
+    return report;
+  } finally {
+    waiter?.dispose();
+  }
+}
+
+/**
+ * The waitForStop variant of the step and continue tools: resumes, then reports the next stop.
+ */
+async function resumeAndReportResult(
+  toolName: string,
+  debugManager: Debug,
+  mutex: Mutex,
+  args: { sessionId?: string; threadId?: number; timeoutMs?: number },
+  action: (session: vscode.DebugSession) => Promise<void>
+): Promise<CallToolResult> {
+  try {
+    logger.debug(`[${toolName}] Resuming and waiting for stop`, { sessionId: args.sessionId, threadId: args.threadId });
+    const report = await resumeAndReport(debugManager, mutex, args, action);
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify(report, null, 2),
+      }],
+    };
+  } catch (error) {
+    logger.debug(`[${toolName}] Error:`, { error: error instanceof Error ? error.message : String(error) });
+    return createErrorResult(error);
+  }
+}
+
+function describeStack(frames: StackFrameInfo[]): string {
+  return frames.map((frame) => `${frame.name}@${frame.file}`).join('\n');
+}
+
+async function captureLocals(
+  debugManager: Debug,
+  session: vscode.DebugSession,
+  threadId: number
+): Promise<LocalsSnapshot | undefined> {
+  const frames = await debugManager.inspection.getStackTrace(threadId, session);
+  if (frames.length === 0) {
+    return undefined;
+  }
+  return {
+    stack: describeStack(frames),
+    values: await debugManager.inspection.getLocalValues(frames[0].id, session),
+  };
+}
+
 export function registerExecutionTools(
   mcpServer: McpServer,
   debugManager: Debug,
@@ -19,9 +189,18 @@ export function registerExecutionTools(
 ): void {
   mcpServer.tool(
     'continue_execution',
-    'Continues program execution until the next breakpoint is hit or the program terminates. Can target a specific session in multi-process debugging',
-    sessionSchema.shape,
+    'Continues program execution until the next breakpoint is hit or the program terminates. Sends the request to the given session and thread, not to whichever session is focused in the UI',
+    continueSchema.shape,
     async (args): Promise<CallToolResult> => {
+      if (args.waitForStop) {
+        return resumeAndReportResult('continue_execution', debugManager, mutex, args, (session) =>
+          debugManager.execution.continue(session, {
+            threadId: args.threadId,
+            singleThread: args.singleThread,
+          })
+        );
+      }
+
       return mutex.runExclusive(async () => {
         try {
           const session = args.sessionId
@@ -32,8 +211,11 @@ export function registerExecutionTools(
             throw new Error(`Session ${args.sessionId} not found`);
           }
 
-          logger.debug('[continue_execution] Continuing', { sessionId: args.sessionId });
-          await debugManager.execution.continue(session);
+          logger.debug('[continue_execution] Continuing', { sessionId: args.sessionId, threadId: args.threadId });
+          await debugManager.execution.continue(session, {
+            threadId: args.threadId,
+            singleThread: args.singleThread,
+          });
           return {
             content: [{
               type: 'text',
@@ -50,8 +232,8 @@ export function registerExecutionTools(
 
   mcpServer.tool(
     'pause_execution',
-    'Pauses the currently running program at its current execution point. Can target a specific session in multi-process debugging',
-    sessionSchema.shape,
+    'Pauses the currently running program at its current execution point. Sends the request to the given session and thread, not to whichever session is focused in the UI',
+    pauseSchema.shape,
     async (args): Promise<CallToolResult> => {
       return mutex.runExclusive(async () => {
         try {
@@ -63,8 +245,8 @@ export function registerExecutionTools(
             throw new Error(`Session ${args.sessionId} not found`);
           }
 
-          logger.debug('[pause_execution] Pausing', { sessionId: args.sessionId });
-          await debugManager.execution.pause(session);
+          logger.debug('[pause_execution] Pausing', { sessionId: args.sessionId, threadId: args.threadId });
+          await debugManager.execution.pause(session, args.threadId);
           return {
             content: [{
               type: 'text',
@@ -81,9 +263,19 @@ export function registerExecutionTools(
 
   mcpServer.tool(
     'step_over',
-    'Steps over the current line of code, executing it without entering any function calls. Can target a specific session in multi-process debugging',
-    sessionSchema.shape,
+    'Steps over the current line of code, executing it without entering any function calls. Sends the request to the given session and thread, not to whichever session is focused in the UI',
+    stepSchema.shape,
     async (args): Promise<CallToolResult> => {
+      if (args.waitForStop) {
+        return resumeAndReportResult('step_over', debugManager, mutex, args, (session) =>
+          debugManager.execution.stepOver(session, {
+            threadId: args.threadId,
+            singleThread: args.singleThread,
+            granularity: args.granularity,
+          })
+        );
+      }
+
       return mutex.runExclusive(async () => {
         try {
           const session = args.sessionId
@@ -94,8 +286,12 @@ export function registerExecutionTools(
             throw new Error(`Session ${args.sessionId} not found`);
           }
 
-          logger.debug('[step_over] Stepping over', { sessionId: args.sessionId });
-          await debugManager.execution.stepOver(session);
+          logger.debug('[step_over] Stepping over', { sessionId: args.sessionId, threadId: args.threadId });
+          await debugManager.execution.stepOver(session, {
+            threadId: args.threadId,
+            singleThread: args.singleThread,
+            granularity: args.granularity,
+          });
           return {
             content: [{
               type: 'text',
@@ -112,9 +308,19 @@ export function registerExecutionTools(
 
   mcpServer.tool(
     'step_into',
-    'Steps into the function call on the current line to debug inside the called function. Can target a specific session in multi-process debugging',
-    sessionSchema.shape,
+    'Steps into the function call on the current line to debug inside the called function. Sends the request to the given session and thread, not to whichever session is focused in the UI',
+    stepSchema.shape,
     async (args): Promise<CallToolResult> => {
+      if (args.waitForStop) {
+        return resumeAndReportResult('step_into', debugManager, mutex, args, (session) =>
+          debugManager.execution.stepInto(session, {
+            threadId: args.threadId,
+            singleThread: args.singleThread,
+            granularity: args.granularity,
+          })
+        );
+      }
+
       return mutex.runExclusive(async () => {
         try {
           const session = args.sessionId
@@ -125,8 +331,12 @@ export function registerExecutionTools(
             throw new Error(`Session ${args.sessionId} not found`);
           }
 
-          logger.debug('[step_into] Stepping into', { sessionId: args.sessionId });
-          await debugManager.execution.stepInto(session);
+          logger.debug('[step_into] Stepping into', { sessionId: args.sessionId, threadId: args.threadId });
+          await debugManager.execution.stepInto(session, {
+            threadId: args.threadId,
+            singleThread: args.singleThread,
+            granularity: args.granularity,
+          });
           return {
             content: [{
               type: 'text',
@@ -143,9 +353,19 @@ export function registerExecutionTools(
 
   mcpServer.tool(
     'step_out',
-    'Steps out of the current function, continuing execution until it returns to the calling function. Can target a specific session in multi-process debugging',
-    sessionSchema.shape,
+    'Steps out of the current function, continuing execution until it returns to the calling function. Sends the request to the given session and thread, not to whichever session is focused in the UI',
+    stepSchema.shape,
     async (args): Promise<CallToolResult> => {
+      if (args.waitForStop) {
+        return resumeAndReportResult('step_out', debugManager, mutex, args, (session) =>
+          debugManager.execution.stepOut(session, {
+            threadId: args.threadId,
+            singleThread: args.singleThread,
+            granularity: args.granularity,
+          })
+        );
+      }
+
       return mutex.runExclusive(async () => {
         try {
           const session = args.sessionId
@@ -156,8 +376,12 @@ export function registerExecutionTools(
             throw new Error(`Session ${args.sessionId} not found`);
           }
 
-          logger.debug('[step_out] Stepping out', { sessionId: args.sessionId });
-          await debugManager.execution.stepOut(session);
+          logger.debug('[step_out] Stepping out', { sessionId: args.sessionId, threadId: args.threadId });
+          await debugManager.execution.stepOut(session, {
+            threadId: args.threadId,
+            singleThread: args.singleThread,
+            granularity: args.granularity,
+          });
           return {
             content: [{
               type: 'text',
@@ -171,4 +395,129 @@ export function registerExecutionTools(
       });
     }
   );
+
+  mcpServer.tool(
+    'run_to_line',
+    'Runs a paused session to a line: sets a one-shot breakpoint in that session only (or uses the breakpoint already on the line), continues, waits for the next stop and removes the breakpoint again whatever the outcome. Returns where execution stopped, whether it is the target line, and the locals that changed. Execution can stop earlier at another breakpoint or exception',
+    runToLineSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      const state: { target?: SessionBreakpoint } = {};
+      try {
+        logger.debug('[run_to_line] Running to line', {
+          sessionId: args.sessionId,
+          file: args.file,
+          line: args.line,
+          symbol: args.symbol,
+          pattern: args.pattern,
+        });
+
+        // Resolved before resumeAndReport subscribes to the next stop
+        const location = await mutex.runExclusive(() => debugManager.breakpoints.resolveLocation(args.file, args));
+        const report = await resumeAndReport(debugManager, mutex, args, async (session) => {
+          state.target = await debugManager.breakpoints.addSessionBreakpoint(session, args.file, location.line);
+          await debugManager.execution.continue(session, { threadId: args.threadId });
+        });
+
+        const target = state.target!;
+        const reachedTarget = report.outcome === 'stopped' &&
+          report.line === target.line &&
+          report.file !== undefined &&
+          path.resolve(report.file) === path.resolve(args.file);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              ...report,
+              target: {
+                file: args.file,
+                line: target.line,
+                verified: target.verified,
+                ...(target.message && { message: target.message }),
+                ...(target.existing && { existingBreakpoint: true }),
+              },
+              reachedTarget,
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        logger.debug('[run_to_line] Error:', { error: error instanceof Error ? error.message : String(error) });
+        return createErrorResult(error);
+      } finally {
+        const target = state.target;
+        if (target) {
+          await mutex.runExclusive(() => target.remove());
+        }
+      }
+    }
+  );
+
+  mcpServer.tool(
+    'wait_for_stop',
+    'Waits until a debug session pauses (breakpoint, exception, step, entry), terminates, or the timeout elapses. Returns the stop reason, thread, top stack frame and the hit breakpoints with the IDs list_breakpoints returns. Use after continue_execution instead of polling get_current_location',
+    waitForStopSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      // Deliberately not holding the mutex while waiting so other tools keep working
+      try {
+        logger.debug('[wait_for_stop] Waiting', {
+          sessionId: args.sessionId,
+          timeoutMs: args.timeoutMs,
+          reasons: args.reasons,
+        });
+
+        const result = await debugManager.sessions.waitForStop(args.sessionId, {
+          timeoutMs: args.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS,
+          reasons: args.reasons,
+        });
+
+        if (result.outcome !== 'stopped' || !result.stop) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            }],
+          };
+        }
+
+        const stop = result.stop;
+        const { topFrame, hitBreakpoints } = await mutex.runExclusive(async () => {
+          const session = debugManager.sessions.getSession(args.sessionId);
+          if (!session) {
+            return {};
+          }
+
+          // The adapter's breakpoint IDs mean nothing to clients; report the IDs list_breakpoints shows
+          const keys = await debugManager.breakpoints.findStopKeys(session, stop);
+          const hitBreakpoints = keys.map((key) => ({
+            id: debugManager.breakpoints.findIdByKey(key),
+            location: debugManager.breakpoints.describeKey(key),
+          }));
+          if (stop.threadId === undefined) {
+            return { hitBreakpoints };
+          }
+          const frames = await debugManager.inspection.getStackTrace(stop.threadId, session);
+          return { topFrame: frames[0], hitBreakpoints };
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              outcome: result.outcome,
+              sessionId: result.sessionId,
+              reason: stop.reason,
+              description: stop.description,
+              threadId: stop.threadId,
+              allThreadsStopped: stop.allThreadsStopped,
+              hitBreakpoints,
+              topFrame,
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        logger.debug('[wait_for_stop] Error:', { error: error instanceof Error ? error.message : String(error) });
+        return createErrorResult(error);
+      }
+    }
+  );
 }
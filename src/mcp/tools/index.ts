@@ -6,6 +6,8 @@ import { registerSessionTools } from '@/mcp/tools/session';
 import { registerBreakpointTools } from '@/mcp/tools/breakpoint';
 import { registerExecutionTools } from '@/mcp/tools/execution';
 import { registerInspectionTools } from '@/mcp/tools/inspection';
+import { registerProfileTools } from '@/mcp/tools/profile';
+import { registerTraceTools } from '@/mcp/tools/trace';
 
 const logger = getLogger();
 
@@ -20,6 +22,8 @@ export function registerTools(
   registerExecutionTools(mcpServer, debugManager, mutex);
   registerInspectionTools(mcpServer, debugManager, mutex);
   registerSessionTools(mcpServer, debugManager, mutex);
+  registerProfileTools(mcpServer, debugManager, mutex);
+  registerTraceTools(mcpServer, debugManager, mutex);
 
   logger.info('✓ All MCP tools registered');
 }
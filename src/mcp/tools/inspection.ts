@@ -4,7 +4,8 @@ import type { Debug } from '@/managers/debug';
 import type { Mutex } from '@/mutex';
 import { z } from 'zod';
 import { getLogger } from '@/logger';
-import { createErrorResult, getFrameFromActiveStackItem, NO_FRAME_ID } from '../utils';
+import { getFrameFromActiveStackItem, NO_FRAME_ID } from '@/managers/frames';
+import { createErrorResult } from '../utils';
 
 const logger = getLogger();
 
@@ -30,6 +31,17 @@ const getStackFramesSchema = z.object({
   sessionId: z.string().optional().describe('Optional session ID. If not provided, operates on the active debug session'),
 });
 
+const DEFAULT_OUTPUT_TAIL = 200;
+
+const getProgramOutputSchema = z.object({
+  sessionId: z.string().optional().describe('Optional session ID. If not provided, reads the active debug session. Output of recently terminated sessions can still be read by ID'),
+  categories: z.array(z.enum(['stdout', 'stderr', 'console', 'important', 'telemetry'])).optional().describe('Output categories to include. Defaults to everything except telemetry. Logpoint messages are reported as "console"'),
+  since: z.number().int().min(0).optional().describe('Cursor returned by a previous call. Only output received after it is returned'),
+  pattern: z.string().optional().describe('Regular expression; only output entries matching it are returned'),
+  ignoreCase: z.boolean().optional().describe('Match pattern case-insensitively (default: false)'),
+  tail: z.number().int().min(1).max(5000).optional().describe(`Return at most this many matching entries: the newest ones, or with since the oldest ones after it (default: ${DEFAULT_OUTPUT_TAIL})`),
+});
+
 export function registerInspectionTools(
   mcpServer: McpServer,
   debugManager: Debug,
@@ -240,7 +252,7 @@ export function registerInspectionTools(
           const locations = await debugManager.inspection.getCurrentLocation(session);
 
           if (locations.length === 0) {
-            throw new Error('No threads are paused. Use continue_execution, step_over, or hit a breakpoint first.');
+            throw new Error('No threads are paused. Use wait_for_stop to wait for a breakpoint, step or exception first.');
           }
 
           return {
@@ -256,4 +268,54 @@ export function registerInspectionTools(
       });
     }
   );
+
+  mcpServer.tool(
+    'get_program_output',
+    'Returns stdout, stderr and debug console output (including logpoint messages) captured from a debug session. Pass the returned cursor as since to read only new output; filter by category or regular expression',
+    getProgramOutputSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      // Only reads the output buffer, so it does not need the mutex
+      try {
+        const sessionId = args.sessionId ?? debugManager.sessions.getActiveSession()?.id;
+        if (!sessionId) {
+          throw new Error('No active debug session');
+        }
+        if (!debugManager.sessions.getSession(sessionId) && !debugManager.output.hasOutput(sessionId)) {
+          throw new Error(`Session ${sessionId} not found`);
+        }
+
+        let pattern: RegExp | undefined;
+        if (args.pattern !== undefined) {
+          try {
+            pattern = new RegExp(args.pattern, args.ignoreCase ? 'i' : '');
+          } catch (error) {
+            throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+
+        logger.debug('[get_program_output] Reading output', {
+          sessionId,
+          since: args.since,
+          categories: args.categories,
+        });
+
+        const result = debugManager.output.query(sessionId, {
+          categories: args.categories,
+          since: args.since,
+          pattern,
+          tail: args.tail ?? DEFAULT_OUTPUT_TAIL,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ sessionId, ...result }, null, 2),
+          }],
+        };
+      } catch (error) {
+        logger.debug('[get_program_output] Error:', { error: error instanceof Error ? error.message : String(error) });
+        return createErrorResult(error);
+      }
+    }
+  );
 }
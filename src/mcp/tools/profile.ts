@@ -0,0 +1,154 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Debug } from '@/managers/debug';
+import type { Mutex } from '@/mutex';
+import { z } from 'zod';
+import { getLogger } from '@/logger';
+import { createErrorResult } from '../utils';
+
+const logger = getLogger();
+
+const profileNameSchema = z.object({
+  name: z.string().min(1).describe('Name of the breakpoint profile'),
+});
+
+const saveProfileSchema = z.object({
+  name: z.string().min(1).describe('Name to save the profile under (e.g., "checkout-bug")'),
+  overwrite: z.boolean().optional().describe('Replace an existing profile with the same name (default: false)'),
+});
+
+const applyProfileSchema = z.object({
+  name: z.string().min(1).describe('Name of the breakpoint profile to apply'),
+  mode: z.enum(['replace', 'merge']).optional().describe('"replace" removes all current source and function breakpoints first, except tracepoints and session-scoped ones; "merge" only adds breakpoints at locations not already used (default: replace)'),
+});
+
+export function registerProfileTools(
+  mcpServer: McpServer,
+  debugManager: Debug,
+  mutex: Mutex
+): void {
+  mcpServer.tool(
+    'save_breakpoint_profile',
+    'Saves the current source, function and exception breakpoints under a name in .vscode/mcp-debug-hub/breakpoints.json, so the set can be restored later or shared through version control',
+    saveProfileSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug(`[save_breakpoint_profile] ${args.name}`);
+          const summary = await debugManager.profiles.save(args.name, args.overwrite ?? false);
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(summary, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[save_breakpoint_profile] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'list_breakpoint_profiles',
+    'Lists the saved breakpoint profiles with the number of source, function and exception breakpoints in each',
+    {},
+    async (): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug('[list_breakpoint_profiles] Listing profiles');
+          const profiles = await debugManager.profiles.list();
+
+          if (profiles.length === 0) {
+            return {
+              content: [{
+                type: 'text',
+                text: 'No breakpoint profiles saved',
+              }],
+            };
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ profiles, total: profiles.length }, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[list_breakpoint_profiles] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'apply_breakpoint_profile',
+    'Restores a saved breakpoint profile, either replacing the current breakpoints or merging with them. Exception breakpoint choices are applied to matching running sessions right away',
+    applyProfileSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug(`[apply_breakpoint_profile] ${args.name}`, { mode: args.mode });
+          const result = await debugManager.profiles.apply(args.name, args.mode ?? 'replace');
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ name: args.name, mode: args.mode ?? 'replace', ...result }, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[apply_breakpoint_profile] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'diff_breakpoint_profile',
+    'Compares a saved breakpoint profile with the breakpoints currently set: what applying it would add, what only exists in the workspace, and what differs in condition, hit condition, log message or enablement',
+    profileNameSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug(`[diff_breakpoint_profile] ${args.name}`);
+          const diff = await debugManager.profiles.diff(args.name);
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ name: args.name, ...diff }, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[diff_breakpoint_profile] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'delete_breakpoint_profile',
+    'Deletes a saved breakpoint profile. Breakpoints currently set are not affected',
+    profileNameSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug(`[delete_breakpoint_profile] ${args.name}`);
+          await debugManager.profiles.delete(args.name);
+          return {
+            content: [{
+              type: 'text',
+              text: `Breakpoint profile '${args.name}' deleted`,
+            }],
+          };
+        } catch (error) {
+          logger.debug('[delete_breakpoint_profile] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+}
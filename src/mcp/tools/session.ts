@@ -5,12 +5,25 @@ import type { Debug } from '@/managers/debug';
 import type { Mutex } from '@/mutex';
 import { z } from 'zod';
 import { getLogger } from '@/logger';
-import { createErrorResult, getAllLaunchConfigurations } from '../utils';
+import {
+  createErrorResult,
+  deepMerge,
+  findCompound,
+  findLaunchConfiguration,
+  getAllCompounds,
+  getAllLaunchConfigurations,
+  resolveWorkspaceFolder,
+  validateDebugConfiguration,
+} from '../utils';
 
 const logger = getLogger();
 
 const launchDebugSchema = z.object({
-  configuration: z.string().describe('Name of the debug configuration from workspace settings (e.g., launch.json or workspace.code-workspace). Examples: "Python: Current File", "Node: Launch Program"'),
+  configuration: z.string().optional().describe('Name of the debug configuration from workspace settings (e.g., launch.json or workspace.code-workspace). Examples: "Python: Current File", "Node: Launch Program". Exactly one of configuration, inlineConfiguration or compound must be provided'),
+  compound: z.string().optional().describe('Name of a compound configuration ("compounds" in launch.json) to launch all of its member configurations together. Returns every resulting session ID'),
+  inlineConfiguration: z.record(z.any()).optional().describe('Ad-hoc debug configuration object with at least "type", "request" and "name" (e.g., {"type": "node", "request": "launch", "name": "Ad-hoc", "program": "${workspaceFolder}/index.js"}). Used instead of a named configuration'),
+  overrides: z.record(z.any()).optional().describe('Fields deep-merged on top of the configuration, e.g. {"args": ["--verbose"], "env": {"DEBUG": "1"}, "cwd": "...", "program": "...", "stopOnEntry": true}. Objects are merged, arrays and other values replace, null removes a field'),
+  workspaceFolder: z.string().optional().describe('Optional workspace folder name or path for multi-root workspaces. Selects where the configuration is looked up and launched. Defaults to the folder that defines the configuration, or the first folder'),
 });
 
 const launchChildDebugSchema = z.object({
@@ -18,10 +31,12 @@ const launchChildDebugSchema = z.object({
   configuration: z.string().describe('Name of the debug configuration from workspace settings (e.g., launch.json or workspace.code-workspace)'),
   consoleMode: z.enum(['separate', 'merged']).optional().describe('Whether to use a separate console or merge with parent (default: separate)'),
   lifecycleManagedByParent: z.boolean().optional().describe('Whether lifecycle (restart/stop) is managed by parent (default: false)'),
+  workspaceFolder: z.string().optional().describe('Optional workspace folder name or path for multi-root workspaces. Selects where the configuration is looked up and launched. Defaults to the folder that defines the configuration, or the parent session\'s folder'),
 });
 
 const stopDebugSchema = z.object({
-  sessionId: z.string().optional().describe('Optional session ID to stop. If not provided, stops the active session'),
+  sessionId: z.string().optional().describe('Optional session ID to stop. If not provided, stops the active session. If the session belongs to a compound with "stopAll": true, the whole compound is stopped'),
+  compound: z.string().optional().describe('Optional compound name. Stops every session launched for that compound'),
 });
 
 const getSessionInfoSchema = z.object({
@@ -32,6 +47,19 @@ const attachToProcessSchema = z.object({
   configuration: z.string().describe('Name of an attach-type debug configuration from workspace settings. Must have "request": "attach".'),
   processId: z.number().int().optional().describe('Process ID (PID) to attach to. Either processId or processName must be provided.'),
   processName: z.string().optional().describe('Process name to attach to (e.g., "python3", "node", "java"). Either processId or processName must be provided.'),
+  workspaceFolder: z.string().optional().describe('Optional workspace folder name or path for multi-root workspaces. Selects where the configuration is looked up and launched. Defaults to the folder that defines the configuration, or the first folder'),
+});
+
+const listDebugSessionsSchema = z.object({
+  includeTerminated: z.boolean().optional().describe('Also list recently terminated sessions with their exit code and termination cause (default: false)'),
+});
+
+const getSessionHistorySchema = z.object({
+  sessionId: z.string().optional().describe('Optional ID of a terminated session. If not provided, returns every retained terminated session, newest first'),
+});
+
+const listLaunchConfigurationsSchema = z.object({
+  workspaceFolder: z.string().optional().describe('Optional workspace folder name or path. If provided, lists only that folder\'s configurations plus those shared from the workspace file and user settings'),
 });
 
 export function registerSessionTools(
@@ -41,36 +69,71 @@ export function registerSessionTools(
 ): void {
   mcpServer.tool(
     'launch_debug',
-    'Launches a new debug session using a named configuration from workspace settings (launch.json or workspace.code-workspace)',
+    'Launches a new debug session using a named configuration from workspace settings (launch.json or workspace.code-workspace) an inline configuration object, or a compound (returns every resulting session ID). Optional overrides (args, env, cwd, program, stopOnEntry, ...) are deep-merged on top and validated against the debug type\'s schema',
     launchDebugSchema.shape,
     async (args): Promise<CallToolResult> => {
       return mutex.runExclusive(async () => {
         try {
-          logger.debug(`[launch_debug] Starting with config: ${args.configuration}`);
-          
-          const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-          if (!workspaceFolder) {
-            throw new Error('No workspace folder found');
+          logger.debug(`[launch_debug] Starting with config: ${args.configuration ?? args.compound ?? args.inlineConfiguration?.name}`);
+
+          const targets = [args.configuration, args.inlineConfiguration, args.compound].filter(Boolean);
+          if (targets.length !== 1) {
+            throw new Error('Provide exactly one of configuration, inlineConfiguration or compound');
           }
 
-          const launchConfig = vscode.workspace.getConfiguration('launch', workspaceFolder.uri);
-          const configurations = launchConfig.get<vscode.DebugConfiguration[]>('configurations');
+          if (args.compound) {
+            if (args.overrides) {
+              throw new Error('overrides cannot be applied to a compound');
+            }
+            const entry = findCompound(args.compound, args.workspaceFolder);
+            const result = await debugManager.sessions.launchCompound(
+              entry.compound,
+              entry.workspaceFolder ?? (args.workspaceFolder ? resolveWorkspaceFolder(args.workspaceFolder) : undefined)
+            );
+            return {
+              content: [{
+                type: 'text' as const,
+                text: JSON.stringify(result, null, 2),
+              }],
+            };
+          }
 
-          if (!configurations || configurations.length === 0) {
-            throw new Error('No debug configurations found in workspace settings');
+          let baseConfig: vscode.DebugConfiguration;
+          let workspaceFolder: vscode.WorkspaceFolder | undefined;
+          if (args.inlineConfiguration) {
+            baseConfig = args.inlineConfiguration as vscode.DebugConfiguration;
+            workspaceFolder = resolveWorkspaceFolder(args.workspaceFolder);
+          } else {
+            ({ configuration: baseConfig, workspaceFolder } = findLaunchConfiguration(
+              args.configuration!,
+              args.workspaceFolder
+            ));
           }
 
-          const config = configurations.find(c => c.name === args.configuration);
-          if (!config) {
-            const available = configurations.map(c => c.name).join(', ');
-            throw new Error(`Configuration '${args.configuration}' not found. Available: ${available}`);
+          const customized = Boolean(args.inlineConfiguration || args.overrides);
+          const config = args.overrides
+            ? deepMerge(baseConfig, args.overrides) as vscode.DebugConfiguration
+            : baseConfig;
+          const warnings = customized ? validateDebugConfiguration(config) : [];
+
+          const sessionId = await debugManager.sessions.launch(config, workspaceFolder);
+          if (!customized) {
+            return {
+              content: [{
+                type: 'text' as const,
+                text: `Debug session launched successfully (ID: ${sessionId})`,
+              }],
+            };
           }
 
-          const sessionId = await debugManager.sessions.launch(config);          
           return {
             content: [{
               type: 'text' as const,
-              text: `Debug session launched successfully (ID: ${sessionId})`,
+              text: JSON.stringify({
+                sessionId,
+                configuration: config,
+                ...(warnings.length > 0 && { warnings }),
+              }, null, 2),
             }],
           };
         } catch (error) {
@@ -93,23 +156,10 @@ export function registerSessionTools(
             config: args.configuration,
           });
 
-          const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-          if (!workspaceFolder) {
-            throw new Error('No workspace folder found');
-          }
-
-          const launchConfig = vscode.workspace.getConfiguration('launch', workspaceFolder.uri);
-          const configurations = launchConfig.get<vscode.DebugConfiguration[]>('configurations');
-
-          if (!configurations || configurations.length === 0) {
-            throw new Error('No debug configurations found in workspace settings');
-          }
-
-          const config = configurations.find(c => c.name === args.configuration);
-          if (!config) {
-            const available = configurations.map(c => c.name).join(', ');
-            throw new Error(`Configuration '${args.configuration}' not found. Available: ${available}`);
-          }
+          const { configuration: config, workspaceFolder } = findLaunchConfiguration(
+            args.configuration,
+            args.workspaceFolder
+          );
 
           const sessionId = await debugManager.sessions.launchChild(
             args.parentSessionId,
@@ -117,7 +167,8 @@ export function registerSessionTools(
             {
               consoleMode: args.consoleMode,
               lifecycleManagedByParent: args.lifecycleManagedByParent,
-            }
+            },
+            workspaceFolder
           );
 
           return {
@@ -136,13 +187,37 @@ export function registerSessionTools(
 
   mcpServer.tool(
     'stop_debug',
-    'Stops a debug session and terminates the debugged program. If sessionId is provided, stops that specific session, otherwise stops the active session',
+    'Stops a debug session and terminates the debugged program. If sessionId is provided, stops that specific session, otherwise stops the active session. Can also stop every session of a compound',
     stopDebugSchema.shape,
     async (args): Promise<CallToolResult> => {
       return mutex.runExclusive(async () => {
         try {
-          logger.debug('[stop_debug] Stopping session', { sessionId: args.sessionId });
-          await debugManager.sessions.terminate(args.sessionId);
+          logger.debug('[stop_debug] Stopping session', { sessionId: args.sessionId, compound: args.compound });
+
+          if (args.sessionId && args.compound) {
+            throw new Error('Provide either sessionId or compound, not both');
+          }
+
+          if (args.compound) {
+            const stopped = await debugManager.sessions.terminateCompound(args.compound);
+            return {
+              content: [{
+                type: 'text',
+                text: `Compound '${args.compound}' stopped (sessions: ${stopped.join(', ') || 'none'})`,
+              }],
+            };
+          }
+
+          const stopped = await debugManager.sessions.terminate(args.sessionId);
+          if (stopped.length > 1) {
+            return {
+              content: [{
+                type: 'text',
+                text: `Debug session stopped together with its compound (stopAll) (sessions: ${stopped.join(', ')})`,
+              }],
+            };
+          }
+
           return {
             content: [{
               type: 'text',
@@ -176,11 +251,16 @@ export function registerSessionTools(
             };
           }
 
+          const info = debugManager.sessions.getSessionInfo(session.id);
           const state = {
             sessionId: session.id,
             sessionName: session.name,
             sessionType: session.type,
             workspaceFolder: session.workspaceFolder?.name,
+            state: info?.state,
+            threads: info?.threads,
+            lastStop: info?.lastStop,
+            exitCode: info?.exitCode,
           };
 
           return {
@@ -199,15 +279,28 @@ export function registerSessionTools(
 
   mcpServer.tool(
     'list_debug_sessions',
-    'Lists all active debug sessions with their hierarchy information. Shows parent-child relationships for multi-process debugging scenarios',
-    {},
-    async (): Promise<CallToolResult> => {
+    'Lists all active debug sessions with their hierarchy information. Shows parent-child relationships for multi-process debugging scenarios. Set includeTerminated to also list recently ended sessions',
+    listDebugSessionsSchema.shape,
+    async (args): Promise<CallToolResult> => {
       return mutex.runExclusive(async () => {
         try {
-          logger.debug('[list_debug_sessions] Listing all sessions');
+          logger.debug('[list_debug_sessions] Listing all sessions', { includeTerminated: args.includeTerminated });
           const sessions = debugManager.sessions.getAllSessions();
-
-          if (sessions.length === 0) {
+          const terminated = args.includeTerminated
+            ? debugManager.sessions.getHistory().map((entry) => ({
+              id: entry.id,
+              name: entry.name,
+              type: entry.type,
+              workspaceFolder: entry.workspaceFolder,
+              parent: entry.parent,
+              cause: entry.cause,
+              exitCode: entry.exitCode,
+              endTime: entry.endTime,
+              duration: entry.duration,
+            }))
+            : [];
+
+          if (sessions.length === 0 && terminated.length === 0) {
             return {
               content: [{
                 type: 'text',
@@ -219,7 +312,11 @@ export function registerSessionTools(
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({ sessions, total: sessions.length }, null, 2),
+              text: JSON.stringify({
+                sessions,
+                total: sessions.length,
+                ...(args.includeTerminated && { terminated }),
+              }, null, 2),
             }],
           };
         } catch (error) {
@@ -274,6 +371,9 @@ export function registerSessionTools(
           const sessionNode = debugManager.sessions.getSessionNode(args.sessionId);
 
           if (!sessionNode) {
+            if (debugManager.sessions.getHistoryEntry(args.sessionId)) {
+              throw new Error(`Session ${args.sessionId} has terminated. Use get_session_history to inspect it`);
+            }
             throw new Error(`Session ${args.sessionId} not found`);
           }
 
@@ -283,6 +383,10 @@ export function registerSessionTools(
             type: sessionNode.session.type,
             workspaceFolder: sessionNode.session.workspaceFolder?.name || '',
             state: sessionNode.state,
+            configuration: sessionNode.configuration,
+            threads: Array.from(sessionNode.threads, ([id, state]) => ({ id, state })),
+            lastStop: sessionNode.lastStop,
+            exitCode: sessionNode.exitCode,
             parent: sessionNode.parent,
             children: sessionNode.children,
             startTime: sessionNode.startTime,
@@ -303,17 +407,67 @@ export function registerSessionTools(
     }
   );
 
+  mcpServer.tool(
+    'get_session_history',
+    'Returns post-mortem details of terminated debug sessions: configuration, start and end time, duration, exit code, termination cause (requested, exited, crashed, adapterFailure, unknown), last stop location and the last lines of output',
+    getSessionHistorySchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug('[get_session_history] Getting history', { sessionId: args.sessionId });
+
+          if (args.sessionId) {
+            const entry = debugManager.sessions.getHistoryEntry(args.sessionId);
+            if (!entry) {
+              throw new Error(debugManager.sessions.getSession(args.sessionId)
+                ? `Session ${args.sessionId} is still running. Use get_session_info instead`
+                : `Session ${args.sessionId} not found in the history`);
+            }
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(entry, null, 2),
+              }],
+            };
+          }
+
+          const history = debugManager.sessions.getHistory();
+          if (history.length === 0) {
+            return {
+              content: [{
+                type: 'text',
+                text: 'No terminated debug sessions',
+              }],
+            };
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ sessions: history, total: history.length }, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[get_session_history] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
   mcpServer.tool(
     'list_launch_configurations',
-    'Lists all available debug launch configurations from the workspace settings (launch.json or workspace.code-workspace). Use this to discover what configurations can be used with launch_debug.',
-    {},
-    async (): Promise<CallToolResult> => {
+    'Lists all available debug launch configurations from every workspace folder\'s launch.json, the .code-workspace file and user settings, with the source of each, plus compound configurations. Use this to discover what configurations and compounds can be used with launch_debug.',
+    listLaunchConfigurationsSchema.shape,
+    async (args): Promise<CallToolResult> => {
       return mutex.runExclusive(async () => {
         try {
-          logger.debug('[list_launch_configurations] Getting all launch configurations');
+          logger.debug('[list_launch_configurations] Getting all launch configurations', {
+            workspaceFolder: args.workspaceFolder,
+          });
 
-          const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-          if (!workspaceFolder) {
+          const workspaceFolders = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.name);
+          if (workspaceFolders.length === 0) {
             return {
               content: [{
                 type: 'text' as const,
@@ -325,25 +479,35 @@ export function registerSessionTools(
             };
           }
 
+          const workspaceFolder = args.workspaceFolder ? resolveWorkspaceFolder(args.workspaceFolder) : undefined;
           const configurations = getAllLaunchConfigurations(workspaceFolder);
+          const compounds = getAllCompounds(workspaceFolder).map(entry => ({
+            name: entry.compound.name,
+            configurations: entry.compound.configurations.map(c => (typeof c === 'string' ? c : c.name)),
+            stopAll: entry.compound.stopAll ?? false,
+            source: entry.source,
+            ...(entry.workspaceFolder && { workspaceFolder: entry.workspaceFolder.name }),
+          }));
 
-          if (configurations.length === 0) {
+          if (configurations.length === 0 && compounds.length === 0) {
             return {
               content: [{
                 type: 'text' as const,
                 text: JSON.stringify({
                   configurations: [],
                   message: 'No launch configurations found. Create a launch.json file to add debug configurations.',
-                  workspaceFolder: workspaceFolder.name
+                  workspaceFolders
                 }, null, 2),
               }],
             };
           }
 
-          const simplifiedConfigs = configurations.map(config => ({
-            name: config.name,
-            type: config.type,
-            request: config.request,
+          const simplifiedConfigs = configurations.map(entry => ({
+            name: entry.configuration.name,
+            type: entry.configuration.type,
+            request: entry.configuration.request,
+            source: entry.source,
+            ...(entry.workspaceFolder && { workspaceFolder: entry.workspaceFolder.name }),
           }));
 
           return {
@@ -352,7 +516,8 @@ export function registerSessionTools(
               text: JSON.stringify({
                 configurations: simplifiedConfigs,
                 total: configurations.length,
-                workspaceFolder: workspaceFolder.name
+                compounds,
+                workspaceFolders
               }, null, 2),
             }],
           };
@@ -383,26 +548,15 @@ export function registerSessionTools(
             throw new Error('Either processId or processName must be provided');
           }
 
-          const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-          if (!workspaceFolder) {
-            throw new Error('No workspace folder found');
-          }
-
-          const launchConfig = vscode.workspace.getConfiguration('launch', workspaceFolder.uri);
-          const configurations = launchConfig.get<vscode.DebugConfiguration[]>('configurations');
-
-          if (!configurations || configurations.length === 0) {
-            throw new Error('No debug configurations found in workspace settings');
-          }
-
-          const baseConfig = configurations.find(c => c.name === args.configuration);
-          if (!baseConfig) {
-            const available = configurations.map(c => c.name).join(', ');
-            throw new Error(`Configuration '${args.configuration}' not found. Available: ${available}`);
-          }
+          const { configuration: baseConfig, workspaceFolder } = findLaunchConfiguration(
+            args.configuration,
+            args.workspaceFolder
+          );
 
           if (baseConfig.request !== 'attach') {
-            const attachConfigs = configurations.filter(c => c.request === 'attach').map(c => c.name);
+            const attachConfigs = getAllLaunchConfigurations(workspaceFolder)
+              .filter(entry => entry.configuration.request === 'attach')
+              .map(entry => entry.configuration.name);
             throw new Error(
               `Configuration '${args.configuration}' is not an attach configuration (has "request": "${baseConfig.request}"). ` +
               (attachConfigs.length > 0
@@ -425,7 +579,7 @@ export function registerSessionTools(
 
           logger.debug('[attach_to_process] Starting debug session with config', attachConfig);
 
-          const sessionId = await debugManager.sessions.launch(attachConfig);
+          const sessionId = await debugManager.sessions.launch(attachConfig, workspaceFolder);
 
           return {
             content: [{
@@ -0,0 +1,141 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Debug } from '@/managers/debug';
+import type { Mutex } from '@/mutex';
+import { z } from 'zod';
+import { getLogger } from '@/logger';
+import { createErrorResult } from '../utils';
+
+const logger = getLogger();
+
+const tracepointSchema = z.object({
+  file: z.string().describe('Absolute path to the source file (e.g., "/workspace/src/main.py")'),
+  line: z.number().int().positive().optional().describe('Line to trace (1-based). Exactly one of line, symbol or pattern must be provided'),
+  expectedText: z.string().optional().describe('Optional text the line is expected to contain. If the line does not contain it, the single line that does is used instead'),
+  symbol: z.string().optional().describe('Symbol path to trace, resolved through the language server (e.g., "OrderService.submit"). Functions resolve to their first body line'),
+  pattern: z.string().optional().describe('Regular expression matched against each line of the file; exactly one line must match'),
+  expressions: z.array(z.string().min(1)).max(10).describe('Expressions to capture each time the line runs (e.g., ["i", "order.total"]). Must not contain braces. An empty array only records that the line ran'),
+  condition: z.string().optional().describe('Optional condition; values are only captured when it evaluates to true'),
+});
+
+const startTraceSchema = z.object({
+  tracepoints: z.array(tracepointSchema).min(1).max(50).describe('Tracepoints to place (minimum 1, maximum 50)'),
+});
+
+const getTraceSchema = z.object({
+  traceId: z.string().optional().describe('ID returned by start_trace. If not provided, lists all traces without their records'),
+  since: z.number().int().nonnegative().optional().describe('Cursor from a previous call. Only newer records are returned'),
+  limit: z.number().int().positive().max(5000).optional().describe('Maximum number of records to return, oldest first (default: 500). The cursor then points after the last returned record'),
+  point: z.number().int().nonnegative().optional().describe('Only records of the tracepoint with this index'),
+  sessionId: z.string().optional().describe('Only records from this debug session'),
+});
+
+const stopTraceSchema = z.object({
+  traceId: z.string().describe('ID returned by start_trace'),
+});
+
+const DEFAULT_RECORD_LIMIT = 500;
+
+export function registerTraceTools(
+  mcpServer: McpServer,
+  debugManager: Debug,
+  mutex: Mutex
+): void {
+  mcpServer.tool(
+    'start_trace',
+    'Starts a trace: places tracepoints (logpoints) that record the values of expressions every time their line runs, without pausing the program. Records are read with get_trace; stop_trace removes the tracepoints. Lines are given like in set_breakpoint',
+    startTraceSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug(`[start_trace] Placing ${args.tracepoints.length} tracepoints`);
+
+          const points = await Promise.all(args.tracepoints.map(async (point) => {
+            const location = await debugManager.breakpoints.resolveLocation(point.file, point);
+            return {
+              file: point.file,
+              line: location.line,
+              expressions: point.expressions,
+              ...(point.condition && { condition: point.condition }),
+            };
+          }));
+          const trace = debugManager.traces.start(points);
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(trace, null, 2),
+            }],
+          };
+        } catch (error) {
+          logger.debug('[start_trace] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+
+  mcpServer.tool(
+    'get_trace',
+    'Returns the records of a trace: one per tracepoint hit, with timestamp, location, session, thread (when known) and the captured values. Pass the returned cursor as since to read only new records. Without traceId, lists all traces',
+    getTraceSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      // Only reads recorded values, so it does not need the mutex
+      try {
+        if (!args.traceId) {
+          logger.debug('[get_trace] Listing traces');
+          const traces = debugManager.traces.list();
+          return {
+            content: [{
+              type: 'text',
+              text: traces.length > 0
+                ? JSON.stringify({ traces, total: traces.length }, null, 2)
+                : 'No traces. Use start_trace to start one',
+            }],
+          };
+        }
+
+        logger.debug(`[get_trace] ${args.traceId}`, { since: args.since });
+        const trace = debugManager.traces.get(args.traceId, {
+          since: args.since,
+          limit: args.limit ?? DEFAULT_RECORD_LIMIT,
+          point: args.point,
+          sessionId: args.sessionId,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(trace, null, 2),
+          }],
+        };
+      } catch (error) {
+        logger.debug('[get_trace] Error:', { error: error instanceof Error ? error.message : String(error) });
+        return createErrorResult(error);
+      }
+    }
+  );
+
+  mcpServer.tool(
+    'stop_trace',
+    'Stops a trace and removes all of its tracepoints. The records stay readable with get_trace',
+    stopTraceSchema.shape,
+    async (args): Promise<CallToolResult> => {
+      return mutex.runExclusive(async () => {
+        try {
+          logger.debug(`[stop_trace] ${args.traceId}`);
+          const trace = debugManager.traces.stop(args.traceId);
+          return {
+            content: [{
+              type: 'text',
+              text: `Trace ${trace.id} stopped: ${trace.points.length} tracepoints removed, ${trace.recordCount} records captured`,
+            }],
+          };
+        } catch (error) {
+          logger.debug('[stop_trace] Error:', { error: error instanceof Error ? error.message : String(error) });
+          return createErrorResult(error);
+        }
+      });
+    }
+  );
+}
@@ -1,7 +1,6 @@
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import * as vscode from 'vscode';
-
-export const NO_FRAME_ID = -1;
+import type { CompoundConfiguration, VariableChange } from '@/types';
 
 export function createErrorResult(error: unknown): CallToolResult {
   const errorMessage = error instanceof Error ? error.message : String(error);
@@ -15,58 +14,288 @@ export function createErrorResult(error: unknown): CallToolResult {
   };
 }
 
-export function getFrameFromActiveStackItem(): { frameId: number; threadId: number } | null {
-  const activeItem = vscode.debug.activeStackItem;
+export type LaunchConfigurationSource = 'workspaceFolder' | 'workspaceFile' | 'user';
+
+export interface LaunchConfigurationEntry {
+  configuration: vscode.DebugConfiguration;
+  source: LaunchConfigurationSource;
+  workspaceFolder?: vscode.WorkspaceFolder;
+}
+
+/**
+ * Resolves a workspace folder by name or path. Without an argument, returns the first folder.
+ */
+export function resolveWorkspaceFolder(nameOrPath?: string): vscode.WorkspaceFolder | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (!nameOrPath) {
+    return folders[0];
+  }
 
-  if (!activeItem) {
-    return null;
+  const folder = folders.find(
+    (f) => f.name === nameOrPath || f.uri.fsPath === vscode.Uri.file(nameOrPath).fsPath
+  );
+  if (!folder) {
+    const available = folders.map((f) => f.name).join(', ') || 'none';
+    throw new Error(`Workspace folder '${nameOrPath}' not found. Available: ${available}`);
   }
+  return folder;
+}
+
+/**
+ * Reads a `launch` setting (configurations or compounds) from every place VS Code looks:
+ * each workspace folder's launch.json, the .code-workspace file, and user settings.
+ */
+export function inspectLaunchSetting<T>(
+  key: 'configurations' | 'compounds'
+): Array<{ items: T[]; source: LaunchConfigurationSource; workspaceFolder?: vscode.WorkspaceFolder }> {
+  const results: Array<{ items: T[]; source: LaunchConfigurationSource; workspaceFolder?: vscode.WorkspaceFolder }> = [];
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const multiRoot = vscode.workspace.workspaceFile !== undefined;
 
-  if (activeItem instanceof vscode.DebugStackFrame) {
-    return {
-      frameId: activeItem.frameId,
-      threadId: activeItem.threadId,
-    };
+  for (const folder of folders) {
+    const inspected = vscode.workspace.getConfiguration('launch', folder.uri).inspect<T[]>(key);
+    // In a single-folder window, launch.json is reported at the workspace level
+    const items = multiRoot
+      ? inspected?.workspaceFolderValue
+      : inspected?.workspaceFolderValue ?? inspected?.workspaceValue;
+    if (items?.length) {
+      results.push({ items, source: 'workspaceFolder', workspaceFolder: folder });
+    }
   }
 
-  if (activeItem instanceof vscode.DebugThread) {
-    return {
-      frameId: NO_FRAME_ID,
-      threadId: activeItem.threadId,
-    };
+  const inspected = vscode.workspace.getConfiguration('launch').inspect<T[]>(key);
+  if (multiRoot && inspected?.workspaceValue?.length) {
+    results.push({ items: inspected.workspaceValue, source: 'workspaceFile' });
   }
+  if (inspected?.globalValue?.length) {
+    results.push({ items: inspected.globalValue, source: 'user' });
+  }
+
+  return results;
+}
 
-  return null;
+/**
+ * Lists launch configurations from every workspace folder, the workspace file and user settings.
+ * When a folder is given, only that folder's configurations plus the shared ones are returned.
+ */
+export function getAllLaunchConfigurations(
+  workspaceFolder?: vscode.WorkspaceFolder
+): LaunchConfigurationEntry[] {
+  return inspectLaunchSetting<vscode.DebugConfiguration>('configurations')
+    .filter((entry) => !workspaceFolder || !entry.workspaceFolder || entry.workspaceFolder.uri.toString() === workspaceFolder.uri.toString())
+    .flatMap(({ items, source, workspaceFolder: folder }) =>
+      items.map((configuration) => ({ configuration, source, workspaceFolder: folder }))
+    );
 }
 
-export async function resolveFrameIdFromThreadId(
-  session: vscode.DebugSession,
-  threadId: number
-): Promise<number> {
-  const stackResponse = await session.customRequest("stackTrace", {
-    threadId,
-    startFrame: 0,
-    levels: 1,
-  });
+/**
+ * Finds a named launch configuration and the folder it should be launched in (undefined for
+ * shared configurations when no folder was requested). Throws when it does not exist or when
+ * the name is ambiguous across folders.
+ */
+export function findLaunchConfiguration(
+  name: string,
+  workspaceFolderName?: string
+): { configuration: vscode.DebugConfiguration; workspaceFolder?: vscode.WorkspaceFolder } {
+  const requestedFolder = workspaceFolderName ? resolveWorkspaceFolder(workspaceFolderName) : undefined;
+  const entries = getAllLaunchConfigurations(requestedFolder);
+
+  if (entries.length === 0) {
+    throw new Error('No debug configurations found in workspace settings');
+  }
 
-  if (!stackResponse?.stackFrames || stackResponse.stackFrames.length === 0) {
-    throw new Error(`No stack frames found for thread ${threadId}. Is the thread paused?`);
+  const matches = entries.filter((entry) => entry.configuration.name === name);
+  if (matches.length === 0) {
+    const available = entries.map((entry) => entry.configuration.name).join(', ');
+    throw new Error(`Configuration '${name}' not found. Available: ${available}`);
   }
 
-  return stackResponse.stackFrames[0].id;
+  // Prefer a folder-level configuration over a shared one with the same name
+  const folderMatches = matches.filter((entry) => entry.workspaceFolder);
+  if (folderMatches.length > 1) {
+    const folders = folderMatches.map((entry) => entry.workspaceFolder!.name).join(', ');
+    throw new Error(`Configuration '${name}' exists in several workspace folders (${folders}). Specify workspaceFolder`);
+  }
+
+  const match = folderMatches[0] ?? matches[0];
+  return {
+    configuration: match.configuration,
+    workspaceFolder: match.workspaceFolder ?? requestedFolder,
+  };
 }
 
+export interface CompoundEntry {
+  compound: CompoundConfiguration;
+  source: LaunchConfigurationSource;
+  workspaceFolder?: vscode.WorkspaceFolder;
+}
 
-export function getAllLaunchConfigurations(
-  workspaceFolder?: vscode.WorkspaceFolder
-): vscode.DebugConfiguration[] {
-  const folder = workspaceFolder || vscode.workspace.workspaceFolders?.[0];
+export function getAllCompounds(workspaceFolder?: vscode.WorkspaceFolder): CompoundEntry[] {
+  return inspectLaunchSetting<CompoundConfiguration>('compounds')
+    .filter((entry) => !workspaceFolder || !entry.workspaceFolder || entry.workspaceFolder.uri.toString() === workspaceFolder.uri.toString())
+    .flatMap(({ items, source, workspaceFolder: folder }) =>
+      items.map((compound) => ({ compound, source, workspaceFolder: folder }))
+    );
+}
 
-  if (!folder) {
-    return [];
+export function findCompound(name: string, workspaceFolderName?: string): CompoundEntry {
+  const requestedFolder = workspaceFolderName ? resolveWorkspaceFolder(workspaceFolderName) : undefined;
+  const entries = getAllCompounds(requestedFolder);
+
+  const matches = entries.filter((entry) => entry.compound.name === name);
+  if (matches.length === 0) {
+    const available = entries.map((entry) => entry.compound.name).join(', ') || 'none';
+    throw new Error(`Compound '${name}' not found. Available: ${available}`);
+  }
+
+  const folderMatches = matches.filter((entry) => entry.workspaceFolder);
+  if (folderMatches.length > 1) {
+    const folders = folderMatches.map((entry) => entry.workspaceFolder!.name).join(', ');
+    throw new Error(`Compound '${name}' exists in several workspace folders (${folders}). Specify workspaceFolder`);
   }
 
-  const launchConfig = vscode.workspace.getConfiguration('launch', folder.uri);
-  return launchConfig.get<vscode.DebugConfiguration[]>('configurations') || [];
+  return folderMatches[0] ?? matches[0];
 }
 
+export function deepMerge(
+  base: Record<string, any>,
+  overrides: Record<string, any>
+): Record<string, any> {
+  const result: Record<string, any> = { ...base };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === null) {
+      delete result[key];
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
+      result[key] = deepMerge(result[key], value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Attributes VS Code accepts on every debug configuration, whatever the debug type
+const GENERIC_CONFIG_ATTRIBUTES = new Set([
+  'name',
+  'type',
+  'request',
+  'preLaunchTask',
+  'postDebugTask',
+  'internalConsoleOptions',
+  'debugServer',
+  'presentation',
+  'suppressMultipleSessionWarning',
+]);
+
+/**
+ * Validates a debug configuration against the `configurationAttributes` schema contributed by the
+ * extension that provides its debug type. Throws on errors; returns warnings for unknown attributes.
+ */
+export function validateDebugConfiguration(config: vscode.DebugConfiguration): string[] {
+  if (!config.type || !config.request || !config.name) {
+    throw new Error('Debug configuration must have "type", "request" and "name" attributes');
+  }
+
+  const debuggers = vscode.extensions.all.flatMap(
+    (extension) => (extension.packageJSON?.contributes?.debuggers ?? []) as any[]
+  );
+  const contribution = debuggers.find((d) => d.type === config.type && d.configurationAttributes);
+  if (!debuggers.some((d) => d.type === config.type)) {
+    const available = [...new Set(debuggers.map((d) => d.type).filter(Boolean))].join(', ');
+    throw new Error(`No installed extension provides debug type '${config.type}'. Available: ${available}`);
+  }
+
+  const schema = contribution?.configurationAttributes?.[config.request];
+  if (!schema) {
+    return [`Debug type '${config.type}' does not publish a schema for request '${config.request}'; configuration not validated`];
+  }
+
+  const properties: Record<string, any> = schema.properties ?? {};
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const required of (schema.required ?? []) as string[]) {
+    if (config[required] === undefined) {
+      errors.push(`Missing required attribute '${required}'`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(config)) {
+    if (GENERIC_CONFIG_ATTRIBUTES.has(key)) {
+      continue;
+    }
+
+    const property = properties[key];
+    if (!property) {
+      warnings.push(`Unknown attribute '${key}' for debug type '${config.type}'`);
+      continue;
+    }
+
+    const expected: string[] | undefined = property.type
+      ? (Array.isArray(property.type) ? property.type : [property.type])
+      : undefined;
+    if (expected && !expected.some((type) => matchesJsonType(value, type))) {
+      errors.push(`Attribute '${key}' must be of type ${expected.join(' | ')}`);
+    }
+    if (Array.isArray(property.enum) && !property.enum.includes(value)) {
+      errors.push(`Attribute '${key}' must be one of: ${property.enum.map(String).join(', ')}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid '${config.type}' debug configuration:\n- ${errors.join('\n- ')}`);
+  }
+
+  return warnings;
+}
+
+function matchesJsonType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      // Variables such as ${workspaceFolder} or ${command:pickProcess} are resolved later
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' || (typeof value === 'string' && value.startsWith('${'));
+    case 'integer':
+      return Number.isInteger(value) || (typeof value === 'string' && value.startsWith('${'));
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+export function diffVariables(
+  before: Record<string, string>,
+  after: Record<string, string>
+): VariableChange[] {
+  const changes: VariableChange[] = [];
+
+  for (const [name, value] of Object.entries(after)) {
+    if (!(name in before)) {
+      changes.push({ name, change: 'added', after: value });
+    } else if (before[name] !== value) {
+      changes.push({ name, change: 'changed', before: before[name], after: value });
+    }
+  }
+
+  for (const [name, value] of Object.entries(before)) {
+    if (!(name in after)) {
+      changes.push({ name, change: 'removed', before: value });
+    }
+  }
+
+  return changes;
+}
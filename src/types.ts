@@ -2,6 +2,8 @@ import * as vscode from "vscode";
 
 export type LogLevel = "debug" | "info" | "warn" | "error";
 
+export type AuthMode = "none" | "bearer";
+
 export type DebugState =
   | "idle"
   | "launching"
@@ -9,6 +11,93 @@ export type DebugState =
   | "paused"
   | "stopped";
 
+export interface StopInfo {
+  reason: string;
+  threadId?: number;
+  description?: string;
+  text?: string;
+  allThreadsStopped: boolean;
+  hitBreakpointIds: number[];
+  timestamp: number;
+  /** Stop at a breakpoint whose actions resume execution; waiting for a stop ignores it. */
+  autoContinue?: boolean;
+  /** Stop at breakpoints scoped to other sessions only, which is continued right away. */
+  outOfScope?: boolean;
+}
+
+export interface SessionStopEvent {
+  sessionId: string;
+  stop: StopInfo;
+}
+
+export type StopReasonFilter =
+  | "breakpoint"
+  | "exception"
+  | "step"
+  | "entry"
+  | "terminated";
+
+export interface WaitForStopResult {
+  outcome: "stopped" | "terminated" | "timeout";
+  sessionId: string;
+  stop?: StopInfo;
+  exitCode?: number;
+}
+
+export type DebugEvent =
+  | {
+      type: "sessionStarted";
+      sessionId: string;
+      name: string;
+      sessionType: string;
+      parent: string | null;
+    }
+  | { type: "sessionTerminated"; sessionId: string; exitCode?: number }
+  | {
+      type: "breakpointHit";
+      sessionId: string;
+      threadId?: number;
+      hitBreakpointIds: number[];
+    }
+  | {
+      type: "exception";
+      sessionId: string;
+      threadId?: number;
+      description?: string;
+      text?: string;
+    }
+  | { type: "output"; sessionId: string; category: string; output: string };
+
+export interface OutputEntry {
+  seq: number;
+  category: string;
+  output: string;
+  timestamp: number;
+  source?: { file: string; line?: number };
+}
+
+export interface OutputQuery {
+  categories?: string[];
+  since?: number;
+  pattern?: RegExp;
+  tail?: number;
+}
+
+export interface OutputQueryResult {
+  entries: OutputEntry[];
+  /** Pass back as `since` to read only newer output. */
+  cursor: number;
+  /** Entries evicted from the buffer before they could be read with this cursor. */
+  dropped: number;
+  /** Matching entries left out because of the tail limit. */
+  omitted: number;
+}
+
+export interface ThreadStateInfo {
+  id: number;
+  state: DebugState;
+}
+
 export interface DebugSessionInfo {
   id: string;
   name: string;
@@ -17,6 +106,29 @@ export interface DebugSessionInfo {
   state: DebugState;
   parent: string | null;
   children: string[];
+  threads: ThreadStateInfo[];
+  compound?: string;
+  lastStop?: StopInfo;
+  exitCode?: number;
+}
+
+export interface CompoundConfiguration {
+  name: string;
+  configurations: Array<string | { name: string; folder: string }>;
+  stopAll?: boolean;
+  preLaunchTask?: string;
+}
+
+export interface CompoundGroup {
+  name: string;
+  sessionIds: string[];
+  stopAll: boolean;
+}
+
+export interface CompoundLaunchResult {
+  compound: string;
+  sessionIds: string[];
+  missing: string[];
 }
 
 export interface SessionNode {
@@ -25,6 +137,40 @@ export interface SessionNode {
   children: string[];
   state: DebugState;
   startTime: number;
+  threads: Map<number, DebugState>;
+  configuration: vscode.DebugConfiguration;
+  compound?: string;
+  lastStop?: StopInfo;
+  /** Incremented whenever the session resumes, to recognize stops that are out of date. */
+  resumeCount: number;
+  exitCode?: number;
+  terminationRequested?: boolean;
+  adapterError?: string;
+}
+
+export type TerminationCause =
+  | "requested"
+  | "exited"
+  | "crashed"
+  | "adapterFailure"
+  | "unknown";
+
+export interface SessionHistoryEntry {
+  id: string;
+  name: string;
+  type: string;
+  workspaceFolder: string;
+  parent: string | null;
+  compound?: string;
+  configuration: vscode.DebugConfiguration;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  cause: TerminationCause;
+  exitCode?: number;
+  adapterError?: string;
+  lastStop?: StopInfo;
+  outputTail: OutputEntry[];
 }
 
 export interface SessionTreeNode {
@@ -46,16 +192,264 @@ export interface ThreadInfo {
   name: string;
 }
 
-export interface BreakpointInfo {
+/** How a breakpoint bound in one debug session, as reported by its adapter. */
+export interface BreakpointSessionStatus {
+  sessionId: string;
+  verified: boolean;
+  line?: number;
+  message?: string;
+}
+
+interface BreakpointInfoBase {
   id: string;
+  condition?: string;
+  hitCondition?: string;
+  logMessage?: string;
+  enabled: boolean;
+  /** True when at least one debug session verified the breakpoint. */
+  verified: boolean;
+  sessions: BreakpointSessionStatus[];
+  /** Stops attributed to this breakpoint location since the extension was activated. */
+  hitCount: number;
+  /** Removed automatically after its first hit. */
+  temporary?: boolean;
+  /** Group the breakpoint was set in, e.g. by set_breakpoints_from_diff. */
+  tag?: string;
+  /** The only session the breakpoint stops in; it is removed when that session ends. */
+  sessionId?: string;
+}
+
+export interface SourceBreakpointInfo extends BreakpointInfoBase {
+  kind: "source";
   file: string;
   line: number;
   column?: number;
+}
+
+export interface FunctionBreakpointInfo extends BreakpointInfoBase {
+  kind: "function";
+  functionName: string;
+}
+
+export type BreakpointInfo = SourceBreakpointInfo | FunctionBreakpointInfo;
+
+export interface BreakpointHit {
+  seq: number;
+  breakpointId?: string;
+  /** "file:line" for source breakpoints, the function name for function breakpoints. */
+  location: string;
+  sessionId: string;
+  threadId?: number;
+  reason: string;
+  timestamp: number;
+  /** Values of the breakpoint's capture expressions, evaluated in the top stack frame. */
+  captured?: Record<string, string>;
+}
+
+export type BreakpointHitGrouping = "breakpoint" | "session" | "thread" | "reason";
+
+export interface BreakpointHitQuery {
+  breakpointId?: string;
+  sessionId?: string;
+  threadId?: number;
+  reason?: string;
+  since?: number;
+}
+
+export interface BreakpointHitGroup {
+  key: string;
+  count: number;
+  firstHit: number;
+  lastHit: number;
+}
+
+export type BreakpointAction =
+  | { type: "evaluate"; expression: string }
+  | { type: "stackTrace"; levels?: number }
+  | { type: "setVariable"; name: string; value: string };
+
+export interface BreakpointActionResult {
+  action: BreakpointAction;
+  /** Result of `evaluate`, or the new value after `setVariable`. */
+  value?: string;
+  frames?: { name: string; file: string; line: number }[];
+  error?: string;
+}
+
+export interface BreakpointActionRecord {
+  seq: number;
+  timestamp: number;
+  breakpointId?: string;
+  location: string;
+  sessionId: string;
+  threadId?: number;
+  results: BreakpointActionResult[];
+  continued: boolean;
+}
+
+export interface TracepointInfo {
+  index: number;
+  file: string;
+  line: number;
+  expressions: string[];
+  condition?: string;
+}
+
+export interface TraceRecord {
+  seq: number;
+  timestamp: number;
+  /** Index of the tracepoint in the trace. */
+  point: number;
+  /** "file:line" of the tracepoint. */
+  location: string;
+  sessionId: string;
+  values: Record<string, string>;
+  /** The unparsed output, when it could not be split into one value per expression. */
+  raw?: string;
+}
+
+export interface TraceInfo {
+  id: string;
+  active: boolean;
+  startedAt: number;
+  stoppedAt?: number;
+  points: TracepointInfo[];
+  recordCount: number;
+}
+
+export interface DiffBreakpoint {
+  file: string;
+  line: number;
+  /** The hunk header, e.g. "@@ -40,2 +40,5 @@". */
+  hunk: string;
+}
+
+export interface SkippedDiffHunk {
+  file: string;
+  hunk: string;
+  reason: string;
+}
+
+export interface DiffBreakpointsResult {
+  tag: string;
+  base: string;
+  breakpoints: DiffBreakpoint[];
+  skipped: SkippedDiffHunk[];
+}
+
+export interface ExceptionFilterInfo {
+  filter: string;
+  label: string;
+  description?: string;
+  default?: boolean;
+  supportsCondition?: boolean;
+  conditionDescription?: string;
+}
+
+/** The subset of the DAP `Capabilities` object this extension relies on. */
+export interface AdapterCapabilities {
+  exceptionBreakpointFilters?: ExceptionFilterInfo[];
+  supportsExceptionFilterOptions?: boolean;
+  supportsFunctionBreakpoints?: boolean;
+  supportsDataBreakpoints?: boolean;
+  [key: string]: unknown;
+}
+
+export interface ExceptionFilterSetting {
+  filterId: string;
+  condition?: string;
+}
+
+/** Exception filters chosen for every session of one launch configuration. */
+export interface ExceptionFilterChoice {
+  type: string;
+  request: string;
+  name: string;
+  workspaceFolder?: string;
+  filters: ExceptionFilterSetting[];
+}
+
+/** Where to place a source breakpoint; exactly one of line, symbol or pattern is set. */
+export interface BreakpointLocator {
+  line?: number;
+  expectedText?: string;
+  symbol?: string;
+  pattern?: string;
+}
+
+export interface ResolvedBreakpointLocation {
+  line: number;
+  /** The line's text; empty for a plain line, for which the file is not read. */
+  text: string;
+  resolvedFrom: "line" | "text" | "symbol" | "pattern";
+}
+
+export interface ProfileSourceBreakpoint {
+  /** Relative to the workspace folder (prefixed with the folder name in multi-root workspaces) when inside it. */
+  file: string;
+  line: number;
+  column?: number;
+  enabled: boolean;
   condition?: string;
   hitCondition?: string;
   logMessage?: string;
+}
+
+export interface ProfileFunctionBreakpoint {
+  functionName: string;
   enabled: boolean;
+  condition?: string;
+  hitCondition?: string;
+  logMessage?: string;
+}
+
+export interface BreakpointProfile {
+  savedAt: string;
+  sourceBreakpoints: ProfileSourceBreakpoint[];
+  functionBreakpoints: ProfileFunctionBreakpoint[];
+  exceptionBreakpoints: ExceptionFilterChoice[];
+}
+
+export interface BreakpointProfileSummary {
+  name: string;
+  savedAt: string;
+  sourceBreakpoints: number;
+  functionBreakpoints: number;
+  exceptionBreakpoints: number;
+}
+
+export interface BreakpointProfileDiff {
+  /** Set in the profile but not in the workspace: applying adds them. */
+  onlyInProfile: string[];
+  /** Set in the workspace but not in the profile: applying with "replace" removes them. */
+  onlyInWorkspace: string[];
+  /** Same location, different condition, hit condition, log message or enablement. */
+  changed: string[];
+}
+
+export type DataBreakpointAccessType = "read" | "write" | "readWrite";
+
+export interface DataBreakpointEntry {
+  dataId: string;
+  description: string;
+  accessType: DataBreakpointAccessType;
+  condition?: string;
+  hitCondition?: string;
+  /** "mcp" for set_data_breakpoint, "vscode" for data breakpoints set in VS Code's UI. */
+  origin: "mcp" | "vscode";
   verified: boolean;
+  message?: string;
+}
+
+export type SteppingGranularity = "statement" | "line" | "instruction";
+
+export interface ExecutionOptions {
+  threadId?: number;
+  singleThread?: boolean;
+}
+
+export interface StepOptions extends ExecutionOptions {
+  granularity?: SteppingGranularity;
 }
 
 export interface StackFrameInfo {
@@ -73,6 +467,36 @@ export interface VariableInfo {
   variablesReference: number;
 }
 
+export interface SourceLine {
+  line: number;
+  text: string;
+  current: boolean;
+}
+
+export interface VariableChange {
+  name: string;
+  change: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+}
+
+export interface StopReport {
+  outcome: WaitForStopResult["outcome"];
+  sessionId: string;
+  reason?: string;
+  threadId?: number;
+  file?: string;
+  line?: number;
+  column?: number;
+  function?: string;
+  source?: SourceLine[];
+  /** Locals that changed, when execution stopped in the same stack frame it was resumed from. */
+  changedVariables?: VariableChange[];
+  /** Set when execution stopped in another stack frame, e.g. after stepping into a call. */
+  newFrame?: boolean;
+  exitCode?: number;
+}
+
 export interface DebugLocation {
   threadId: number;
   threadName: string;
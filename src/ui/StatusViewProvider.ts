@@ -46,9 +46,24 @@ export class StatusViewProvider implements vscode.WebviewViewProvider {
         case 'openSettings':
           await vscode.commands.executeCommand('workbench.action.openSettings', EXTENSION_ID);
           break;
+        case 'regenerateToken':
+          await vscode.commands.executeCommand(`${EXTENSION_ID}.regenerateToken`);
+          break;
         case 'openLogs':
           await vscode.commands.executeCommand(`${EXTENSION_ID}.showStatus`);
           break;
+        case 'saveProfile':
+          await vscode.commands.executeCommand(`${EXTENSION_ID}.saveBreakpointProfile`);
+          break;
+        case 'applyProfile':
+          await vscode.commands.executeCommand(`${EXTENSION_ID}.applyBreakpointProfile`);
+          break;
+        case 'diffProfile':
+          await vscode.commands.executeCommand(`${EXTENSION_ID}.diffBreakpointProfile`);
+          break;
+        case 'deleteProfile':
+          await vscode.commands.executeCommand(`${EXTENSION_ID}.deleteBreakpointProfile`);
+          break;
         case 'setAutostart':
           try {
             await this._configManager.setAutostart(data.value);
@@ -83,6 +98,7 @@ export class StatusViewProvider implements vscode.WebviewViewProvider {
           port: this._mcpServer.getPort(),
           host: this._configManager.sseHost,
           autostart: this._configManager.autostart,
+          authMode: this._configManager.authMode,
         },
       });
     }
@@ -459,6 +475,10 @@ export class StatusViewProvider implements vscode.WebviewViewProvider {
         <span class="info-label">Port</span>
         <span id="serverPort" class="info-value">-</span>
       </div>
+      <div class="info-row">
+        <span class="info-label">Auth</span>
+        <span id="authMode" class="info-value">None</span>
+      </div>
     </div>
   </div>
 
@@ -498,6 +518,12 @@ export class StatusViewProvider implements vscode.WebviewViewProvider {
         <span>Copy Server URL</span>
       </button>
     </div>
+    <div class="action-row">
+      <button id="btnRegenerateToken" class="btn-secondary btn-full hidden">
+        <span class="icon">⚿</span>
+        <span>Regenerate Auth Token</span>
+      </button>
+    </div>
   </div>
 
   <div class="toggle-row">
@@ -522,6 +548,28 @@ export class StatusViewProvider implements vscode.WebviewViewProvider {
     </div>
   </div>
 
+  <div class="quick-actions">
+    <div class="section-title">Breakpoint Profiles</div>
+    <div class="quick-action-grid">
+      <button id="btnSaveProfile" class="btn-secondary quick-action-btn">
+        <span class="icon">⤓</span>
+        <span>Save</span>
+      </button>
+      <button id="btnApplyProfile" class="btn-secondary quick-action-btn">
+        <span class="icon">⤒</span>
+        <span>Apply</span>
+      </button>
+      <button id="btnDiffProfile" class="btn-secondary quick-action-btn">
+        <span class="icon">≠</span>
+        <span>Compare</span>
+      </button>
+      <button id="btnDeleteProfile" class="btn-secondary quick-action-btn">
+        <span class="icon">✕</span>
+        <span>Delete</span>
+      </button>
+    </div>
+  </div>
+
   <div class="footer">
     MCP Debug Hub Extension
   </div>
@@ -547,6 +595,10 @@ export class StatusViewProvider implements vscode.WebviewViewProvider {
       vscode.postMessage({ type: 'copyUrl' });
     });
 
+    document.getElementById('btnRegenerateToken').addEventListener('click', () => {
+      vscode.postMessage({ type: 'regenerateToken' });
+    });
+
     document.getElementById('btnSettings').addEventListener('click', () => {
       vscode.postMessage({ type: 'openSettings' });
     });
@@ -555,6 +607,22 @@ export class StatusViewProvider implements vscode.WebviewViewProvider {
       vscode.postMessage({ type: 'openLogs' });
     });
 
+    document.getElementById('btnSaveProfile').addEventListener('click', () => {
+      vscode.postMessage({ type: 'saveProfile' });
+    });
+
+    document.getElementById('btnApplyProfile').addEventListener('click', () => {
+      vscode.postMessage({ type: 'applyProfile' });
+    });
+
+    document.getElementById('btnDiffProfile').addEventListener('click', () => {
+      vscode.postMessage({ type: 'diffProfile' });
+    });
+
+    document.getElementById('btnDeleteProfile').addEventListener('click', () => {
+      vscode.postMessage({ type: 'deleteProfile' });
+    });
+
 
     // Handle messages from extension
     window.addEventListener('message', event => {
@@ -578,6 +646,8 @@ export class StatusViewProvider implements vscode.WebviewViewProvider {
       const metricPort = document.getElementById('metricPort');
       const metricUptime = document.getElementById('metricUptime');
       const toggleAutostart = document.getElementById('toggleAutostart');
+      const authMode = document.getElementById('authMode');
+      const btnRegenerateToken = document.getElementById('btnRegenerateToken');
 
       if (data.isRunning) {
         statusPill.textContent = 'Running';
@@ -606,6 +676,10 @@ export class StatusViewProvider implements vscode.WebviewViewProvider {
       }
 
       toggleAutostart.checked = data.autostart;
+
+      const bearerAuth = data.authMode === 'bearer';
+      authMode.textContent = bearerAuth ? 'Bearer token' : 'None';
+      btnRegenerateToken.classList.toggle('hidden', !bearerAuth);
     }
   </script>
 </body>